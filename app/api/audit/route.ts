@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { AUDIT_ACTIONS, queryAudit } from "@/lib/audit-log"
+import { errorResponse } from "@/lib/errors"
+import { parseSearchParams, timestampSchema } from "@/lib/validation"
+
+const auditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().optional(),
+  filePath: z.string().optional(),
+  since: timestampSchema.optional(),
+  until: timestampSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(10000).default(100),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const query = parseSearchParams(request, auditQuerySchema)
+    return NextResponse.json({ entries: queryAudit(query) })
+  } catch (error) {
+    return errorResponse(error, "Failed to read audit log")
+  }
+}
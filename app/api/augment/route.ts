@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import {
+  countAugmentedSamples,
+  getAugmentationConfig,
+  getAugmentationStatus,
+  startAugmentation,
+} from "@/lib/augmentation"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    return NextResponse.json({
+      status: getAugmentationStatus() ?? null,
+      variants: await countAugmentedSamples(),
+      config: getAugmentationConfig(),
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read augmentation status")
+  }
+}
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Augmentation API called")
+  try {
+    const status = await startAugmentation()
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    return errorResponse(error, "Failed to start augmentation")
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { ROLES, createApiKey, listApiKeys, requireRole, revokeApiKey } from "@/lib/auth"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { parseSearchParams, readJsonBody } from "@/lib/validation"
+
+const createKeySchema = z.object({
+  name: z.string(),
+  role: z.enum(ROLES),
+})
+
+const revokeKeySchema = z.object({
+  id: z.string(),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  return NextResponse.json({ keys: listApiKeys() })
+}
+
+/**
+ * Creates an API key: { name, role }. The key is only shown in this response.
+ */
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { name, role } = await readJsonBody(request, createKeySchema)
+    const { key, info } = createApiKey(name, role)
+    return NextResponse.json({ success: true, key, info })
+  } catch (error) {
+    return errorResponse(error, "Failed to create API key")
+  }
+}
+
+export async function DELETE(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { id } = parseSearchParams(request, revokeKeySchema)
+    if (!revokeApiKey(id)) {
+      throw new NotFoundError(`API key not found: ${id}`)
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to revoke API key")
+  }
+}
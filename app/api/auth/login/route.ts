@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { SESSION_COOKIE, getAuthConfig, login } from "@/lib/auth"
+import { UnauthorizedError, errorResponse } from "@/lib/errors"
+import { readJsonBody } from "@/lib/validation"
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Missing username"),
+  password: z.string().min(1, "Missing password"),
+})
+
+export async function POST(request: Request) {
+  try {
+    const { username, password } = await readJsonBody(request, loginSchema)
+
+    const session = login(username, password)
+    if (!session) {
+      console.log("[v0] Failed login for:", username)
+      throw new UnauthorizedError("Invalid username or password")
+    }
+
+    console.log("[v0] Logged in:", username)
+    const response = NextResponse.json({ success: true, user: session.principal })
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: new URL(request.url).protocol === "https:",
+      path: "/",
+      maxAge: getAuthConfig().sessionTtlHours * 60 * 60,
+    })
+    return response
+  } catch (error) {
+    return errorResponse(error, "Failed to log in")
+  }
+}
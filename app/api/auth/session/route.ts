@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+import { authenticate } from "@/lib/auth"
+
+/**
+ * Who the caller is, so the UI can decide what to show. `user` is null when
+ * not logged in and anonymous access is disabled.
+ */
+export async function GET(request: Request) {
+  return NextResponse.json({ user: authenticate(request) ?? null })
+}
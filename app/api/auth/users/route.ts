@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { ROLES, createUser, deleteUser, listUsers, requireRole } from "@/lib/auth"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { parseSearchParams, readJsonBody } from "@/lib/validation"
+
+const createUserSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+  role: z.enum(ROLES),
+})
+
+const deleteUserSchema = z.object({
+  username: z.string(),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  return NextResponse.json({ users: listUsers() })
+}
+
+/**
+ * Creates an account: { username, password, role }
+ */
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { username, password, role } = await readJsonBody(request, createUserSchema)
+    const user = createUser(username, password, role)
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    return errorResponse(error, "Failed to create user")
+  }
+}
+
+export async function DELETE(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { username } = parseSearchParams(request, deleteUserSchema)
+    if (!deleteUser(username)) {
+      throw new NotFoundError(`User not found: ${username}`)
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete user")
+  }
+}
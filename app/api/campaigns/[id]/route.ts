@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getCampaignProgress, getNextPrompt } from "@/lib/campaigns"
+import { errorResponse } from "@/lib/errors"
+
+/**
+ * Progress toward a campaign's quotas, and the label/quality combination
+ * guided mode should ask for next (null once every quota is met)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { id } = await params
+    const progress = getCampaignProgress(id)
+    return NextResponse.json({ progress, prompt: getNextPrompt(progress) ?? null })
+  } catch (error) {
+    return errorResponse(error, "Failed to load campaign progress")
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getCampaignConfig } from "@/lib/campaigns"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { active, campaigns } = getCampaignConfig()
+    return NextResponse.json({
+      active,
+      campaigns: campaigns.map(({ id, name, description }) => ({ id, name, description })),
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to load campaigns")
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getContributorStats } from "@/lib/contributors"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    return NextResponse.json({ contributors: getContributorStats() })
+  } catch (error) {
+    return errorResponse(error, "Failed to load contributors")
+  }
+}
@@ -1,39 +1,41 @@
-import { NextResponse } from "next/server"
-import { deleteImage } from "@/lib/storage"
-
-export async function DELETE(request: Request) {
-  console.log("[v0] Delete API called")
-  try {
-    const { filename, label, quality, filePath } = await request.json()
-    console.log("[v0] Received delete request:", { filename, label, quality, filePath })
-
-    if (!filename || !label) {
-      console.log("[v0] Missing filename or label")
-      return NextResponse.json({ error: "Missing filename or label" }, { status: 400 })
-    }
-
-    // Default to "perfect" if quality is not provided (for backward compatibility)
-    const imageQuality = quality || "perfect"
-
-    const deleted = deleteImage(filename, label, imageQuality)
-    
-    if (deleted) {
-      console.log("[v0] Image deleted successfully:", filename)
-      return NextResponse.json({
-        success: true,
-        message: "Image deleted successfully",
-      })
-    } else {
-      console.log("[v0] Image not found or could not be deleted:", filename)
-      // Still return success if we removed it from store (file might have been manually deleted)
-      return NextResponse.json({ 
-        error: "Image file not found on filesystem, but removed from store",
-        warning: true 
-      }, { status: 200 })
-    }
-  } catch (error) {
-    console.error("[v0] Error deleting image:", error)
-    return NextResponse.json({ error: "Failed to delete image", details: String(error) }, { status: 500 })
-  }
-}
-
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { deleteImage } from "@/lib/storage"
+import { getDefaultQuality } from "@/lib/taxonomy"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { filenameSchema, labelSchema, qualitySchema, readJsonBody } from "@/lib/validation"
+
+const deleteSchema = z.object({
+  filename: filenameSchema,
+  label: labelSchema,
+  // Defaults to the best quality level (for backward compatibility)
+  quality: qualitySchema.optional(),
+  filePath: z.string().optional(), // accepted for older clients; the file is located from the other fields
+})
+
+export async function DELETE(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Delete API called")
+  try {
+    const { filename, label, quality } = await readJsonBody(request, deleteSchema)
+    console.log("[v0] Received delete request:", { filename, label, quality })
+
+    const imageQuality = quality || getDefaultQuality()
+
+    // Succeeds when the file was moved to the trash or a stale index entry was removed
+    if (!(await deleteImage(filename, label, imageQuality, principal.name))) {
+      throw new NotFoundError(`Image not found: ${filename}`)
+    }
+
+    console.log("[v0] Image deleted successfully:", filename)
+    return NextResponse.json({
+      success: true,
+      message: "Image moved to trash",
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete image")
+  }
+}
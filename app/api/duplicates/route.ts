@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getNearDuplicateGroups } from "@/lib/storage"
+import { getSubmissionCheckConfig } from "@/lib/submission-checks"
+import { z } from "zod"
+import { errorResponse } from "@/lib/errors"
+import { parseSearchParams } from "@/lib/validation"
+
+const duplicatesQuerySchema = z.object({
+  distance: z.coerce.number().int().min(0, "Distance must be a non-negative integer").optional(),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Duplicates API called")
+  try {
+    const distance =
+      parseSearchParams(request, duplicatesQuerySchema).distance ?? getSubmissionCheckConfig().duplicates.flagDistance
+
+    const groups = getNearDuplicateGroups(distance)
+    console.log(`[v0] Found ${groups.length} groups of possible duplicates`)
+    return NextResponse.json({ distance, groups })
+  } catch (error) {
+    return errorResponse(error, "Failed to find duplicates")
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { exportIdx, exportQuickDrawNdjson, getAllImages } from "@/lib/storage"
+import { getClassNames } from "@/lib/taxonomy"
+import { createZipStream } from "@/lib/zip"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { parseSearchParams } from "@/lib/validation"
+
+const exportFormatSchema = z.enum(["quickdraw", "idx"])
+
+const DEFAULT_RESOLUTIONS: Record<z.infer<typeof exportFormatSchema>, number> = {
+  quickdraw: 256,
+  idx: 28,
+}
+
+const formatQuerySchema = z.object({
+  resolution: z.coerce
+    .number()
+    .int("Resolution must be an integer between 1 and 256")
+    .min(1, "Resolution must be an integer between 1 and 256")
+    .max(256, "Resolution must be an integer between 1 and 256")
+    .optional(),
+  // "false" leaves out samples rendered by the shape generator
+  synthetic: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+})
+
+export async function GET(request: Request, { params }: { params: Promise<{ format: string }> }) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  const { format: formatParam } = await params
+  console.log("[v0] Format export API called:", formatParam)
+  try {
+    const parsedFormat = exportFormatSchema.safeParse(formatParam)
+    if (!parsedFormat.success) {
+      throw new NotFoundError(
+        `Unknown export format: ${formatParam}. Must be one of: ${exportFormatSchema.options.join(", ")}`,
+      )
+    }
+    const format = parsedFormat.data
+
+    const query = parseSearchParams(request, formatQuerySchema)
+    const resolution = query.resolution ?? DEFAULT_RESOLUTIONS[format]
+    const samples = getAllImages().filter((image) => query.synthetic || !image.synthetic)
+
+    if (format === "quickdraw") {
+      return new Response(await exportQuickDrawNdjson(resolution, samples), {
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="shapes_quickdraw_${resolution}.ndjson"`,
+        },
+      })
+    }
+
+    const { images, labels } = await exportIdx(resolution, samples)
+    const zip = createZipStream([
+      { name: "images-idx3-ubyte", data: images },
+      { name: "labels-idx1-ubyte", data: labels },
+      { name: "classes.txt", data: Buffer.from(getClassNames().join("\n") + "\n") },
+    ])
+    return new Response(zip, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="shapes_idx_${resolution}.zip"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to export dataset")
+  }
+}
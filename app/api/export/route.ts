@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { getAllImages, getImageStrokes, readImageFile } from "@/lib/storage"
+import { QUALITY_SOURCES, applyQualitySource } from "@/lib/reviews"
+import { getAugmentedSamples, getAugmentedStrokes, readAugmentedImage } from "@/lib/augmentation"
+import { DEFAULT_SPLIT_RATIOS, assignSplits, attachAugmentations, buildManifest, manifestToCsv } from "@/lib/dataset"
+import { MAX_ZIP_ENTRIES, createZipStream, type ZipEntry } from "@/lib/zip"
+import { NotFoundError, UnprocessableError, errorResponse } from "@/lib/errors"
+import { parseSearchParams } from "@/lib/validation"
+
+const exportQuerySchema = z.object({
+  train: z.coerce.number().min(0).default(DEFAULT_SPLIT_RATIOS.train),
+  val: z.coerce.number().min(0).default(DEFAULT_SPLIT_RATIOS.val),
+  test: z.coerce.number().min(0).default(DEFAULT_SPLIT_RATIOS.test),
+  seed: z.coerce.number().int("Seed must be an integer").default(0),
+  // "consensus" and "consensus-only" use the reviewers' quality instead of the drawer's
+  qualitySource: z.enum(QUALITY_SOURCES).default("self"),
+  // "false" leaves out samples rendered by the shape generator
+  synthetic: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  // Adds the augmented variants, each in the same split as its source
+  augmented: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Export API called")
+  try {
+    const { seed, qualitySource, synthetic, augmented, ...ratios } = parseSearchParams(request, exportQuerySchema)
+    const images = getAllImages().filter((image) => synthetic || !image.synthetic)
+    // Splits are drawn over the original samples only, so adding variants never moves a sample
+    const split = assignSplits(ratios, seed, applyQualitySource(images, qualitySource))
+    const assigned = augmented ? attachAugmentations(split, await getAugmentedSamples()) : split
+
+    const manifest = buildManifest(assigned)
+    console.log(`[v0] Exporting ${manifest.length} images with seed ${seed}, ${qualitySource} quality, augmented: ${augmented}`)
+
+    // Index entries whose file has gone missing are left out of the archive rather than
+    // failing the download halfway; the manifests, written last, list them separately
+    const missing = new Set<string>()
+    const entries: ZipEntry[] = []
+    assigned.forEach(({ image, augmentation }, i) => {
+      const archivePath = manifest[i].path
+      entries.push({
+        name: archivePath,
+        data: async () => {
+          try {
+            return await (augmentation ? readAugmentedImage(augmentation) : readImageFile(image))
+          } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error
+            console.warn("[v0] Leaving missing file out of export:", archivePath)
+            missing.add(archivePath)
+            return undefined
+          }
+        },
+        modified: image.timestamp,
+      })
+      if (image.strokesPath) {
+        const strokes = () => (augmentation ? getAugmentedStrokes(augmentation) : getImageStrokes(image))
+        entries.push({
+          name: archivePath.replace(/\.(png|jpg|jpeg)$/i, ".json"),
+          data: async () =>
+            missing.has(archivePath) ? undefined : Buffer.from(JSON.stringify({ strokes: (await strokes()) ?? [] })),
+          modified: image.timestamp,
+        })
+      }
+    })
+    const included = () => manifest.filter((entry) => !missing.has(entry.path))
+    entries.push({ name: "manifest.csv", data: () => Buffer.from(manifestToCsv(included())) })
+    entries.push({
+      name: "manifest.json",
+      data: () =>
+        Buffer.from(
+          JSON.stringify(
+            { seed, ratios, qualitySource, synthetic, augmented, images: included(), missing: [...missing] },
+            null,
+            2,
+          ),
+        ),
+    })
+    if (entries.length > MAX_ZIP_ENTRIES) {
+      throw new UnprocessableError(
+        `Export needs ${entries.length} files, more than the ${MAX_ZIP_ENTRIES} a ZIP archive can hold; leave out synthetic or augmented samples`,
+      )
+    }
+
+    return new Response(createZipStream(entries), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="shapes_dataset_seed${seed}.zip"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to export dataset")
+  }
+}
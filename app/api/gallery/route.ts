@@ -1,15 +1,34 @@
 import { NextResponse } from "next/server"
-import { getAllImages } from "@/lib/storage"
+import { requireRole } from "@/lib/auth"
+import { DEFAULT_PAGE_SIZE, GALLERY_SORTS, MAX_PAGE_SIZE, SAMPLE_ORIGINS, queryGallery } from "@/lib/gallery"
+import { z } from "zod"
+import { errorResponse } from "@/lib/errors"
+import { labelSchema, parseSearchParams, qualitySchema, timestampSchema } from "@/lib/validation"
+
+const galleryQuerySchema = z.object({
+  label: labelSchema.optional(),
+  quality: qualitySchema.optional(),
+  contributor: z.string().optional(),
+  origin: z.enum(SAMPLE_ORIGINS).optional(),
+  from: timestampSchema.optional(),
+  to: timestampSchema.optional(),
+  sort: z.enum(GALLERY_SORTS).default("newest"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
 
-export async function GET() {
   console.log("[v0] Gallery API called")
   try {
-    const images = getAllImages()
-    console.log(`[v0] Total images found: ${images.length}`)
+    const query = parseSearchParams(request, galleryQuerySchema)
+    const page = queryGallery(query)
+    console.log(`[v0] Gallery page: ${page.images.length} of ${page.counts.total} matching images`)
 
-    return NextResponse.json({ images })
+    return NextResponse.json(page)
   } catch (error) {
-    console.error("[v0] Error reading gallery:", error)
-    return NextResponse.json({ error: "Failed to load gallery", details: String(error) }, { status: 500 })
+    return errorResponse(error, "Failed to load gallery")
   }
 }
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { readStoredImage } from "@/lib/storage"
+import { getContentType } from "@/lib/object-store"
+import { NotFoundError, errorResponse, fromZodError } from "@/lib/errors"
+import { filenameSchema } from "@/lib/validation"
+import { slugSchema } from "@/lib/taxonomy"
+
+// An image, or the JSON sidecar holding its strokes and metrics
+const storedFileSchema = z.union([
+  filenameSchema,
+  z.string().regex(/^[A-Za-z0-9_-]+\.json$/i, "Must be a plain sidecar filename such as circle_1737312625123.json"),
+])
+
+// label folder, optional quality folder, then the filename
+const imagePathSchema = z.union([
+  z.tuple([slugSchema, storedFileSchema]),
+  z.tuple([slugSchema, slugSchema, storedFileSchema]),
+])
+
+/**
+ * Serves an original from the store by its path under shapes/
+ * (/api/images/circles/perfect/circle_123.png for /shapes/circles/perfect/circle_123.png)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const parsed = imagePathSchema.safeParse((await params).path)
+    if (!parsed.success) throw fromZodError(parsed.error, "Invalid image path")
+
+    const webPath = `/shapes/${parsed.data.join("/")}`
+    const data = await readStoredImage(webPath)
+    if (!data) {
+      throw new NotFoundError(`Image not found: ${webPath}`)
+    }
+    return new Response(new Uint8Array(data), {
+      headers: { "Content-Type": getContentType(webPath), "Cache-Control": "private, max-age=3600" },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read image")
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { relabelImage } from "@/lib/storage"
+import { getDefaultQuality } from "@/lib/taxonomy"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { filenameSchema, labelSchema, qualitySchema, readJsonBody } from "@/lib/validation"
+
+const relabelSchema = z
+  .object({
+    filename: filenameSchema,
+    label: labelSchema,
+    // Defaults to the best quality level (for backward compatibility)
+    quality: qualitySchema.optional(),
+    newLabel: labelSchema.optional(),
+    newQuality: qualitySchema.optional(),
+  })
+  .refine((body) => body.newLabel || body.newQuality, {
+    message: "Nothing to change: provide newLabel and/or newQuality",
+  })
+
+export async function PATCH(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Relabel API called")
+  try {
+    const { filename, label, quality, newLabel, newQuality } = await readJsonBody(request, relabelSchema)
+    console.log("[v0] Received relabel request:", { filename, label, quality, newLabel, newQuality })
+
+    const imageQuality = quality || getDefaultQuality()
+
+    const image = await relabelImage(filename, label, imageQuality, { label: newLabel, quality: newQuality }, principal.name)
+    if (!image) {
+      throw new NotFoundError(`Image not found: ${filename}`)
+    }
+
+    return NextResponse.json({ success: true, image })
+  } catch (error) {
+    return errorResponse(error, "Failed to relabel image")
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { MAX_IMPORT_BYTES, getImportStatus, startImport, type ImportFile } from "@/lib/import"
+import { contributorSchema } from "@/lib/contributors"
+import { ValidationError, errorResponse, fromZodError } from "@/lib/errors"
+import { labelSchema, qualitySchema, readBodyBytes } from "@/lib/validation"
+
+const importOptionsSchema = z.object({
+  // Source class (directory name or QuickDraw word) -> label; "" leaves the class out
+  mapping: z.record(z.union([labelSchema, z.literal("")])).default({}),
+  // Omit to file each drawing under the quality the shape analyzer suggests
+  quality: qualitySchema.optional(),
+  // Reports what would happen without storing anything unless explicitly false
+  dryRun: z.boolean().default(true),
+  contributor: contributorSchema.optional(),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    return NextResponse.json({ status: getImportStatus() ?? null })
+  } catch (error) {
+    return errorResponse(error, "Failed to read import status")
+  }
+}
+
+/**
+ * Multipart upload: one or more `files`, an optional `paths` field per file
+ * (its path relative to the uploaded folder) and an `options` JSON field
+ */
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Import API called")
+  try {
+    const body = await readBodyBytes(request, MAX_IMPORT_BYTES, `Upload exceeds ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`)
+
+    let form: FormData
+    try {
+      // Parsed from the bytes already read, since the request body has been consumed
+      const contentType = request.headers.get("content-type") ?? ""
+      form = await new Response(new Uint8Array(body), { headers: { "Content-Type": contentType } }).formData()
+    } catch {
+      throw new ValidationError("Request body must be multipart/form-data")
+    }
+
+    let rawOptions: unknown
+    try {
+      rawOptions = JSON.parse(String(form.get("options") ?? "{}"))
+    } catch {
+      throw new ValidationError("options must be valid JSON")
+    }
+    const parsed = importOptionsSchema.safeParse(rawOptions)
+    if (!parsed.success) throw fromZodError(parsed.error, "Invalid import options")
+
+    const uploads = form.getAll("files").filter((value): value is File => typeof value !== "string")
+    if (uploads.length === 0) throw new ValidationError("No files uploaded")
+    const paths = form.getAll("paths")
+    const files: ImportFile[] = await Promise.all(
+      uploads.map(async (file, i) => {
+        const relativePath = typeof paths[i] === "string" && paths[i] !== "" ? (paths[i] as string) : file.name
+        return {
+          path: relativePath.replace(/\\/g, "/").replace(/^\/+/, ""),
+          data: Buffer.from(await file.arrayBuffer()),
+        }
+      }),
+    )
+
+    const status = startImport(files, parsed.data, principal.name)
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    return errorResponse(error, "Failed to start import")
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { rebuildImageIndex } from "@/lib/storage"
+import { errorResponse } from "@/lib/errors"
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Index rebuild API called")
+  try {
+    const count = await rebuildImageIndex()
+    return NextResponse.json({ success: true, count })
+  } catch (error) {
+    return errorResponse(error, "Failed to rebuild index")
+  }
+}
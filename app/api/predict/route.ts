@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { getTrainingReport, predictImage } from "@/lib/classifier"
+import { errorResponse } from "@/lib/errors"
+import { decodePngDataUrl, pngDataUrlSchema, readJsonBody } from "@/lib/validation"
+
+const predictSchema = z.object({
+  image: pngDataUrlSchema,
+})
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { image } = await readJsonBody(request, predictSchema)
+    const png = decodePngDataUrl(image)
+    // prediction is null until a model has been trained, and for a blank canvas
+    return NextResponse.json({
+      prediction: predictImage(png) ?? null,
+      trainedAt: getTrainingReport()?.trainedAt ?? null,
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to classify drawing")
+  }
+}
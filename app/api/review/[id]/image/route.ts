@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { findSampleByReviewId } from "@/lib/reviews"
+import { readImageFile } from "@/lib/storage"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+
+/**
+ * Serves a drawing by its review id, so the review page never sees the
+ * file path (and the quality folder in it)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { id } = await params
+    const image = findSampleByReviewId(id)
+    if (!image) {
+      throw new NotFoundError(`Drawing not found: ${id}`)
+    }
+    return new Response(new Uint8Array(await readImageFile(image)), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "private, max-age=3600" },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read drawing")
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getAgreementReport, getReviewConfig } from "@/lib/reviews"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    return NextResponse.json({ ...getAgreementReport(), config: getReviewConfig() })
+  } catch (error) {
+    return errorResponse(error, "Failed to compute reviewer agreement")
+  }
+}
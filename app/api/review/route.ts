@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { findSampleByReviewId, getConsensus, getNextReviewItem, isOwnSample } from "@/lib/reviews"
+import { recordVote, getVotes } from "@/lib/votes"
+import { ForbiddenError, NotFoundError, errorResponse } from "@/lib/errors"
+import { parseSearchParams, qualitySchema, readJsonBody } from "@/lib/validation"
+
+const reviewIdSchema = z.string().regex(/^[0-9a-f]{16}$/, "Invalid review id")
+
+const nextQuerySchema = z.object({
+  // Comma-separated review ids the reviewer skipped
+  skip: z
+    .string()
+    .transform((value) => value.split(","))
+    .pipe(z.array(reviewIdSchema).max(500))
+    .optional(),
+})
+
+const voteSchema = z.object({
+  id: reviewIdSchema,
+  quality: qualitySchema,
+})
+
+/**
+ * The next drawing for the caller to rate, or null when there is nothing left
+ */
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { skip } = parseSearchParams(request, nextQuerySchema)
+    return NextResponse.json({ item: getNextReviewItem(principal.name, skip) ?? null })
+  } catch (error) {
+    return errorResponse(error, "Failed to pick a drawing to review")
+  }
+}
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    // Anonymous visitors share one name, so their votes would overwrite each other
+    if (principal.kind === "anonymous") {
+      throw new ForbiddenError("Log in to review drawings")
+    }
+
+    const { id, quality } = await readJsonBody(request, voteSchema)
+    const image = findSampleByReviewId(id)
+    if (!image) {
+      throw new NotFoundError(`Drawing not found: ${id}`)
+    }
+    // The same rule getNextReviewItem applies: nobody rates their own drawings
+    if (isOwnSample(image, principal.name)) {
+      throw new ForbiddenError("You cannot review your own drawing")
+    }
+
+    recordVote(image.filePath, principal.name, quality)
+    console.log("[v0] Review vote recorded:", { id, reviewer: principal.name, quality })
+    const { votes } = getConsensus(getVotes(image.filePath))
+    return NextResponse.json({ success: true, votes })
+  } catch (error) {
+    return errorResponse(error, "Failed to record vote")
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getDatasetStats } from "@/lib/stats"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Stats API called")
+  try {
+    return NextResponse.json(getDatasetStats())
+  } catch (error) {
+    return errorResponse(error, "Failed to compute dataset statistics")
+  }
+}
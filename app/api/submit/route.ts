@@ -1,33 +1,143 @@
 import { NextResponse } from "next/server"
-import { addImage } from "@/lib/storage"
+import { z } from "zod"
+import { requireRole, type Principal } from "@/lib/auth"
+import { addImage, checkImage, findImageBySubmissionId, type ImageData } from "@/lib/storage"
+import { getDefaultQuality } from "@/lib/taxonomy"
+import { inputDeviceSchema, strokesSchema } from "@/lib/strokes"
+import { contributorSchema } from "@/lib/contributors"
+import { campaignIdSchema } from "@/lib/campaigns"
+import { UnprocessableError, errorResponse } from "@/lib/errors"
+import {
+  decodePngDataUrl,
+  labelSchema,
+  pngDataUrlSchema,
+  qualitySchema,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/validation"
+
+const submitSchema = z.object({
+  image: pngDataUrlSchema,
+  label: labelSchema,
+  // Defaults to the best quality level (for backward compatibility)
+  quality: qualitySchema.optional(),
+  // Strokes are optional; older clients only send the PNG
+  strokes: strokesSchema.optional(),
+  inputDevice: inputDeviceSchema.optional(),
+  // Anonymous submissions omit it or send an empty string
+  contributor: z.union([z.literal(""), contributorSchema]).optional(),
+  // Set by guided mode so the sample counts toward the campaign's quotas
+  campaign: campaignIdSchema.optional(),
+})
+
+// Submissions being stored, by principal and idempotency key, so a retry that
+// arrives before the first attempt has finished waits for it instead of storing a copy
+const inFlightSubmissions = new Map<string, Promise<ImageData>>()
+
+function toSubmitResponse(imageData: ImageData, replayed: boolean) {
+  // Flag submissions where the analyzer disagrees with the chosen quality
+  const qualityMismatch = imageData.suggestedQuality !== undefined && imageData.suggestedQuality !== imageData.quality
+  return {
+    success: true,
+    replayed, // true when the Idempotency-Key matched an earlier submission and nothing new was stored
+    filename: imageData.filename,
+    path: imageData.filePath,
+    label: imageData.label,
+    quality: imageData.quality,
+    inputDevice: imageData.inputDevice,
+    contributor: imageData.contributor,
+    campaign: imageData.campaign,
+    timestamp: imageData.timestamp,
+    strokesPath: imageData.strokesPath,
+    score: imageData.metrics?.score,
+    metrics: imageData.metrics,
+    suggestedQuality: imageData.suggestedQuality,
+    qualityMismatch,
+    flags: imageData.flags ?? [],
+  }
+}
+
+/**
+ * Checks a submission and stores it
+ * @throws UnprocessableError if a submission check rejects the drawing
+ */
+async function storeSubmission(
+  { image, label, quality, strokes, inputDevice, contributor, campaign }: z.infer<typeof submitSchema>,
+  principal: Principal,
+  submissionId: string | undefined,
+): Promise<ImageData> {
+  const imageQuality = quality || getDefaultQuality()
+
+  // Magic bytes, dimensions and size, before anything is decoded
+  decodePngDataUrl(image)
+
+  // Junk and near-duplicate checks: "reject" issues block the sample, the rest are stored as flags
+  const issues = checkImage(label, image)
+  const rejections = issues.filter((issue) => issue.action === "reject")
+  if (rejections.length > 0) {
+    console.log("[v0] Submission rejected:", rejections.map((issue) => issue.message))
+    throw new UnprocessableError(rejections.map((issue) => issue.message).join("; "), { rejections })
+  }
+
+  const imageData = await addImage(label, imageQuality, image, {
+    strokes,
+    flags: issues,
+    inputDevice,
+    // Logged-in users are credited by username unless they chose another name
+    contributor: contributor || (principal.kind === "user" ? principal.name : undefined),
+    campaign,
+    submissionId,
+    actor: principal.name,
+  })
+  console.log("[v0] Image stored successfully:", imageData.filename)
+  return imageData
+}
 
 export async function POST(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
   console.log("[v0] Submit API called")
   try {
-    const { image, label, quality } = await request.json()
-    console.log("[v0] Received submission:", { label, quality, imageLength: image?.length })
+    // The drawing page retries queued submissions with the same key; answer a
+    // repeat with the sample stored the first time instead of saving it again
+    const submissionId = readIdempotencyKey(request)
+    const body = await readJsonBody(request, submitSchema)
+    console.log("[v0] Received submission:", {
+      label: body.label,
+      quality: body.quality,
+      imageLength: body.image.length,
+      strokeCount: body.strokes?.length,
+    })
 
-    if (!image || !label) {
-      console.log("[v0] Missing image or label")
-      return NextResponse.json({ error: "Missing image or label" }, { status: 400 })
+    const inFlightKey = submissionId && `${principal.name}\n${submissionId}`
+    if (inFlightKey) {
+      // A failed attempt releases the key, and this request then stores the sample itself
+      for (let pending = inFlightSubmissions.get(inFlightKey); pending; pending = inFlightSubmissions.get(inFlightKey)) {
+        await pending.catch(() => undefined)
+      }
+      const previous = findImageBySubmissionId(principal.name, submissionId)
+      if (previous) {
+        console.log("[v0] Repeated submission, returning stored image:", previous.filename)
+        return NextResponse.json(toSubmitResponse(previous, true))
+      }
     }
 
-    // Default to "perfect" if quality is not provided (for backward compatibility)
-    const imageQuality = quality || "perfect"
-
-    const imageData = addImage(label, imageQuality, image)
-    console.log("[v0] Image stored successfully:", imageData.filename)
+    // Reserved before anything is awaited, so a concurrent retry finds it
+    const storing = storeSubmission(body, principal, submissionId)
+    if (inFlightKey) {
+      inFlightSubmissions.set(inFlightKey, storing)
+      const release = () => inFlightSubmissions.delete(inFlightKey)
+      storing.then(release, release)
+    }
+    const imageData = await storing
 
-    return NextResponse.json({
-      success: true,
-      filename: imageData.filename,
-      path: imageData.filePath,
-      label: imageData.label,
-      quality: imageData.quality,
-      timestamp: imageData.timestamp,
-    })
+    const response = toSubmitResponse(imageData, false)
+    if (response.qualityMismatch) {
+      console.log("[v0] Quality mismatch:", { chosen: imageData.quality, suggested: imageData.suggestedQuality })
+    }
+    return NextResponse.json(response)
   } catch (error) {
-    console.error("[v0] Error saving image:", error)
-    return NextResponse.json({ error: "Failed to save image", details: String(error) }, { status: 500 })
+    return errorResponse(error, "Failed to save image")
   }
 }
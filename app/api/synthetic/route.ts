@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { generateSyntheticSamples } from "@/lib/synthetic"
+import { getQualityNames } from "@/lib/taxonomy"
+import { errorResponse } from "@/lib/errors"
+import { labelSchema, qualitySchema, readJsonBody } from "@/lib/validation"
+
+const generateSchema = z.object({
+  label: labelSchema,
+  // Defaults to every quality level
+  qualities: z.array(qualitySchema).min(1).optional(),
+  countPerQuality: z.number().int().min(1).max(100).default(10),
+  // Omit for a random seed; the response reports the one used
+  seed: z.number().int().min(0).optional(),
+})
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Synthetic generation API called")
+  try {
+    const body = await readJsonBody(request, generateSchema)
+    const seed = body.seed ?? Math.floor(Math.random() * 2 ** 31)
+    const created = await generateSyntheticSamples(
+      {
+        label: body.label,
+        qualities: body.qualities ?? getQualityNames(),
+        countPerQuality: body.countPerQuality,
+        seed,
+      },
+      principal.name,
+    )
+    return NextResponse.json({
+      success: true,
+      seed,
+      created: created.length,
+      samples: created.map((image) => ({ filePath: image.filePath, quality: image.quality, score: image.metrics?.score })),
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to generate synthetic samples")
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getImagesByLabel, getImagesByQuality } from "@/lib/storage"
+import { getTaxonomy, saveTaxonomy, taxonomySchema } from "@/lib/taxonomy"
+import { ConflictError, errorResponse } from "@/lib/errors"
+import { readJsonBody } from "@/lib/validation"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Taxonomy API called")
+  try {
+    return NextResponse.json(getTaxonomy())
+  } catch (error) {
+    return errorResponse(error, "Failed to load taxonomy")
+  }
+}
+
+/**
+ * Replaces the taxonomy. Classes and quality levels that still have samples
+ * cannot be removed, since their files would no longer be loaded.
+ */
+export async function PUT(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Taxonomy update called")
+  try {
+    const taxonomy = await readJsonBody(request, taxonomySchema)
+
+    const current = getTaxonomy()
+    const removedClasses = current.classes.filter((c) => !taxonomy.classes.some((n) => n.name === c.name))
+    const removedQualities = current.qualities.filter((q) => !taxonomy.qualities.some((n) => n.name === q.name))
+    const inUse = [
+      ...removedClasses.filter((c) => getImagesByLabel(c.name).length > 0).map((c) => c.name),
+      ...removedQualities.filter((q) => getImagesByQuality(q.name).length > 0).map((q) => q.name),
+    ]
+    if (inUse.length > 0) {
+      throw new ConflictError(`Cannot remove entries that still have samples: ${inUse.join(", ")}`)
+    }
+
+    // Renaming a folder would orphan the files stored under the old one
+    const movedFolders = current.classes.filter((c) => {
+      const updated = taxonomy.classes.find((n) => n.name === c.name)
+      return updated && updated.folder !== c.folder && getImagesByLabel(c.name).length > 0
+    })
+    if (movedFolders.length > 0) {
+      throw new ConflictError(
+        `Cannot change the folder of classes that have samples: ${movedFolders.map((c) => c.name).join(", ")}`,
+      )
+    }
+
+    return NextResponse.json(saveTaxonomy(taxonomy))
+  } catch (error) {
+    return errorResponse(error, "Failed to save taxonomy")
+  }
+}
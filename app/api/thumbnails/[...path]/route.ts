@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { readThumbnail } from "@/lib/thumbnails"
+import { readStoredImage } from "@/lib/storage"
+import { NotFoundError, errorResponse, fromZodError } from "@/lib/errors"
+import { filenameSchema } from "@/lib/validation"
+import { slugSchema } from "@/lib/taxonomy"
+
+// label folder, optional quality folder, then the image filename
+const thumbnailPathSchema = z.union([
+  z.tuple([slugSchema, filenameSchema]),
+  z.tuple([slugSchema, slugSchema, filenameSchema]),
+])
+
+// Thumbnails only change when an image is relabeled, which gives it a new URL
+const CACHE_CONTROL = "private, max-age=86400"
+
+export async function GET(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const parsed = thumbnailPathSchema.safeParse((await params).path)
+    if (!parsed.success) throw fromZodError(parsed.error, "Invalid thumbnail path")
+
+    const relativePath = parsed.data.join("/")
+    const thumbnail = await readThumbnail(relativePath, readStoredImage)
+    if (!thumbnail) {
+      throw new NotFoundError(`Image not found: /shapes/${relativePath}`)
+    }
+
+    const etag = `"${Math.floor(thumbnail.modifiedAt).toString(36)}-${thumbnail.data.length.toString(36)}"`
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers: { ETag: etag, "Cache-Control": CACHE_CONTROL } })
+    }
+    return new Response(new Uint8Array(thumbnail.data), {
+      headers: { "Content-Type": "image/png", "Cache-Control": CACHE_CONTROL, ETag: etag },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read thumbnail")
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { backfillThumbnails } from "@/lib/storage"
+import { getBackfillStatus } from "@/lib/thumbnails"
+import { errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  return NextResponse.json({ status: getBackfillStatus() ?? null })
+}
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Thumbnail backfill API called")
+  try {
+    const status = await backfillThumbnails()
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    return errorResponse(error, "Failed to start thumbnail backfill")
+  }
+}
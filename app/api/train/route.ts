@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { requireRole } from "@/lib/auth"
+import { getTrainingReport, getTrainingStatus, startTraining } from "@/lib/classifier"
+import { errorResponse } from "@/lib/errors"
+import { readJsonBody } from "@/lib/validation"
+
+const trainSchema = z.object({
+  testRatio: z.number().min(0).max(0.9).default(0.2),
+  seed: z.number().int().min(0).default(0),
+  // false leaves out samples rendered by the shape generator
+  synthetic: z.boolean().default(true),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "contributor")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    return NextResponse.json({
+      status: getTrainingStatus() ?? null,
+      report: getTrainingReport() ?? null,
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read training status")
+  }
+}
+
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Train API called")
+  try {
+    const status = startTraining(await readJsonBody(request, trainSchema))
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    return errorResponse(error, "Failed to start training")
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { readTrashImageFile } from "@/lib/storage"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const { id } = await params
+    const data = await readTrashImageFile(id)
+    if (!data) {
+      throw new NotFoundError(`Trash entry not found: ${id}`)
+    }
+    return new Response(new Uint8Array(data), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to read trash image")
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { requireRole } from "@/lib/auth"
+import { getTrash, getTrashRetentionDays, purgeExpiredTrash, purgeTrashEntry, restoreImage } from "@/lib/storage"
+import { z } from "zod"
+import { NotFoundError, errorResponse } from "@/lib/errors"
+import { parseSearchParams, readJsonBody } from "@/lib/validation"
+
+const trashIdSchema = z.string().regex(/^[a-z0-9-]+$/, "Invalid trash entry id")
+
+const restoreSchema = z.object({
+  id: trashIdSchema,
+})
+
+const purgeQuerySchema = z.object({
+  id: trashIdSchema.optional(),
+  days: z.coerce.number().min(0, "days must be a non-negative number").optional(),
+})
+
+export async function GET(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  try {
+    const entries = await getTrash()
+    return NextResponse.json({ retentionDays: getTrashRetentionDays(), entries })
+  } catch (error) {
+    return errorResponse(error, "Failed to list trash")
+  }
+}
+
+/**
+ * Restores a trashed sample: { id }
+ */
+export async function POST(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Restore API called")
+  try {
+    const { id } = await readJsonBody(request, restoreSchema)
+
+    // Throws ConflictError if another file now occupies the original path
+    const image = await restoreImage(id, principal.name)
+    if (!image) {
+      throw new NotFoundError(`Trash entry not found: ${id}`)
+    }
+    return NextResponse.json({ success: true, image })
+  } catch (error) {
+    return errorResponse(error, "Failed to restore image")
+  }
+}
+
+/**
+ * Permanently deletes one entry (?id=) or, without an id, every entry past
+ * the retention period (?days= overrides it)
+ */
+export async function DELETE(request: Request) {
+  const principal = requireRole(request, "curator")
+  if (principal instanceof NextResponse) return principal
+
+  console.log("[v0] Purge API called")
+  try {
+    const { id, days } = parseSearchParams(request, purgeQuerySchema)
+
+    if (id) {
+      if (!(await purgeTrashEntry(id, principal.name))) {
+        throw new NotFoundError(`Trash entry not found: ${id}`)
+      }
+      return NextResponse.json({ success: true, purged: 1 })
+    }
+
+    const retentionDays = days ?? getTrashRetentionDays()
+    return NextResponse.json({ success: true, purged: await purgeExpiredTrash(retentionDays, principal.name) })
+  } catch (error) {
+    return errorResponse(error, "Failed to purge trash")
+  }
+}
@@ -1,8 +1,16 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
+import type { Taxonomy } from "@/lib/taxonomy"
+import type { ShapeMetrics } from "@/lib/shape-analysis"
+import type { SubmissionIssue } from "@/lib/submission-checks"
+import type { InputDevice } from "@/lib/strokes"
+import type { ContributorStats } from "@/lib/contributors"
+import type { Principal } from "@/lib/auth"
+import type { GalleryCounts, GallerySort, SampleOrigin } from "@/lib/gallery"
+import { ApiRequestError, apiFetch, describeApiError } from "@/lib/api-client"
 
 type ShapeImage = {
   filename: string
@@ -11,42 +19,327 @@ type ShapeImage = {
   image: string
   timestamp: number
   filePath?: string
+  strokesPath?: string
+  strokeCount?: number
+  metrics?: ShapeMetrics
+  suggestedQuality?: string
+  flags?: SubmissionIssue[]
+  inputDevice?: InputDevice
+  contributor?: string
+  thumbnailPath?: string
+  synthetic?: boolean
+  importSource?: string
 }
 
+type TrashEntry = {
+  id: string
+  image: ShapeImage
+  deletedAt: number
+  deletedBy: string
+}
+
+type GalleryResponse = {
+  images: ShapeImage[]
+  nextCursor: string | null
+  counts: GalleryCounts
+}
+
+const SORT_OPTIONS: { value: GallerySort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "score-desc", label: "Highest score" },
+  { value: "score-asc", label: "Lowest score" },
+]
+
+type GalleryView = "all" | "duplicates" | "trash" | "contributors"
+
+// Originals and their sidecars are served from the store by /api/images, under the same folders
+const toFileUrl = (filePath: string) => filePath.replace(/^\/shapes\//, "/api/images/")
+
 export default function GalleryPage() {
+  const [user, setUser] = useState<Principal | null>(null)
   const [images, setImages] = useState<ShapeImage[]>([])
   const [loading, setLoading] = useState(true)
-  const [shapeFilter, setShapeFilter] = useState<"all" | "circle" | "square" | "triangle">("all")
-  const [qualityFilter, setQualityFilter] = useState<"all" | "perfect" | "medium" | "irregular">("all")
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [counts, setCounts] = useState<GalleryCounts>({ total: 0, byLabel: {}, byQuality: {} })
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ classes: [], qualities: [] })
+  const [shapeFilter, setShapeFilter] = useState<string>("all")
+  const [qualityFilter, setQualityFilter] = useState<string>("all")
+  const [view, setView] = useState<GalleryView>("all")
+  const [duplicateGroups, setDuplicateGroups] = useState<ShapeImage[][]>([])
+  const [loadingDuplicates, setLoadingDuplicates] = useState(false)
+  const [trash, setTrash] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState<number>(30)
+  const [loadingTrash, setLoadingTrash] = useState(false)
+  const [contributorFilter, setContributorFilter] = useState<string>("")
+  const [originFilter, setOriginFilter] = useState<SampleOrigin | "all">("all")
+  const [sort, setSort] = useState<GallerySort>("newest")
+  // yyyy-mm-dd from the date inputs, in the browser's time zone; "" means unbounded
+  const [fromDate, setFromDate] = useState<string>("")
+  const [toDate, setToDate] = useState<string>("")
+  const [contributors, setContributors] = useState<ContributorStats[]>([])
+  const [loadingContributors, setLoadingContributors] = useState(false)
+  // Scrolling this into view loads the next page
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  // Bumped whenever the filters change, so pages of an older query that arrive late are dropped
+  const queryIdRef = useRef(0)
 
   useEffect(() => {
-    fetchImages()
+    fetchSession()
   }, [])
 
-  const fetchImages = async () => {
-    console.log("[v0] Fetching images from API")
+  useEffect(() => {
+    if (user) {
+      fetchImages()
+    }
+  }, [user, shapeFilter, qualityFilter, contributorFilter, originFilter, sort, fromDate, toDate])
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor || loading || loadingMore) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) fetchImages(nextCursor)
+      },
+      { rootMargin: "600px" },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loading, loadingMore, view])
+
+  // Relabeling, deleting and the duplicate and trash views are curator-only
+  const isCurator = user?.role === "curator"
+
+  const fetchSession = async () => {
     try {
-      const response = await fetch("/api/gallery")
-      if (!response.ok) {
-        throw new Error("Failed to fetch images")
-      }
+      const response = await fetch("/api/auth/session")
       const data = await response.json()
-      console.log("[v0] Loaded images:", data.images?.length || 0)
-      setImages(data.images || [])
+      if (!data.user) {
+        window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+        return
+      }
+      setUser(data.user)
+      fetchTaxonomy()
+      fetchContributors()
+    } catch (error) {
+      console.error("[v0] Error loading session:", error)
+    }
+  }
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    window.location.href = "/login"
+  }
+
+  const fetchTaxonomy = async () => {
+    try {
+      setTaxonomy(await apiFetch<Taxonomy>("/api/taxonomy"))
+    } catch (error) {
+      console.error("[v0] Error loading taxonomy:", error)
+    }
+  }
+
+  // Quality levels are ordered best to worst; the first and last get their own badge colors
+  const defaultQuality = taxonomy.qualities[0]?.name ?? "perfect"
+  const getQualityBadgeClass = (quality: string) => {
+    const index = taxonomy.qualities.findIndex((level) => level.name === quality)
+    if (index === 0) return "bg-green-100 text-green-800"
+    if (index === taxonomy.qualities.length - 1) return "bg-red-100 text-red-800"
+    return "bg-yellow-100 text-yellow-800"
+  }
+
+  const buildGalleryQuery = (cursor?: string) => {
+    const params = new URLSearchParams({ sort })
+    if (shapeFilter !== "all") params.set("label", shapeFilter)
+    if (qualityFilter !== "all") params.set("quality", qualityFilter)
+    if (contributorFilter !== "") params.set("contributor", contributorFilter)
+    if (originFilter !== "all") params.set("origin", originFilter)
+    // Whole days: from the start of fromDate to the end of toDate
+    if (fromDate) params.set("from", String(new Date(`${fromDate}T00:00:00`).getTime()))
+    if (toDate) params.set("to", String(new Date(`${toDate}T23:59:59.999`).getTime()))
+    if (cursor) params.set("cursor", cursor)
+    return params
+  }
+
+  /**
+   * Loads the first page for the current filters, or the page after `cursor`
+   */
+  const fetchImages = async (cursor?: string) => {
+    console.log("[v0] Fetching images from API")
+    const queryId = cursor ? queryIdRef.current : ++queryIdRef.current
+    if (cursor) {
+      setLoadingMore(true)
+    } else {
+      setLoading(true)
+    }
+    try {
+      const data = await apiFetch<GalleryResponse>(`/api/gallery?${buildGalleryQuery(cursor)}`)
+      if (queryId !== queryIdRef.current) return
+      console.log("[v0] Loaded images:", data.images.length, "of", data.counts.total)
+      setImages((prevImages) => (cursor ? [...prevImages, ...data.images] : data.images))
+      setNextCursor(data.nextCursor)
+      setCounts(data.counts)
     } catch (error) {
       console.error("[v0] Error loading from API:", error)
     } finally {
-      setLoading(false)
+      if (queryId === queryIdRef.current) {
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    }
+  }
+
+  /**
+   * Keeps the filter counts in step with a local delete (-1) or the new
+   * label/quality of a relabeled image (+1) without refetching
+   */
+  const adjustCounts = (image: ShapeImage, delta: number) => {
+    const quality = image.quality || defaultQuality
+    setCounts((prevCounts) => ({
+      total: prevCounts.total + delta,
+      byLabel: { ...prevCounts.byLabel, [image.label]: (prevCounts.byLabel[image.label] ?? 0) + delta },
+      byQuality: { ...prevCounts.byQuality, [quality]: (prevCounts.byQuality[quality] ?? 0) + delta },
+    }))
+  }
+
+  const fetchDuplicates = async () => {
+    setLoadingDuplicates(true)
+    try {
+      const data = await apiFetch<{ groups: ShapeImage[][] }>("/api/duplicates")
+      setDuplicateGroups(data.groups || [])
+    } catch (error) {
+      console.error("[v0] Error loading duplicates:", error)
+    } finally {
+      setLoadingDuplicates(false)
+    }
+  }
+
+  const fetchTrash = async () => {
+    setLoadingTrash(true)
+    try {
+      const data = await apiFetch<{ entries: TrashEntry[]; retentionDays: number }>("/api/trash")
+      setTrash(data.entries || [])
+      setRetentionDays(data.retentionDays)
+    } catch (error) {
+      console.error("[v0] Error loading trash:", error)
+    } finally {
+      setLoadingTrash(false)
+    }
+  }
+
+  const fetchContributors = async () => {
+    setLoadingContributors(true)
+    try {
+      const data = await apiFetch<{ contributors: ContributorStats[] }>("/api/contributors")
+      setContributors(data.contributors || [])
+    } catch (error) {
+      console.error("[v0] Error loading contributors:", error)
+    } finally {
+      setLoadingContributors(false)
+    }
+  }
+
+  const showView = (nextView: GalleryView) => {
+    setView(nextView)
+    if (nextView === "duplicates") {
+      fetchDuplicates()
+    } else if (nextView === "trash") {
+      fetchTrash()
+    } else if (nextView === "contributors") {
+      fetchContributors()
+    }
+  }
+
+  const showContributor = (contributor: string) => {
+    setContributorFilter(contributor)
+    setView("all")
+  }
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      const data = await apiFetch<{ image: ShapeImage }>("/api/trash", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id: entry.id }),
+      })
+
+      setTrash((prevTrash) => prevTrash.filter((e) => e.id !== entry.id))
+      // Where the image lands depends on the filters and sort, so reload rather than insert it
+      fetchImages()
+      console.log("[v0] Image restored:", data.image.filePath)
+    } catch (error) {
+      console.error("[v0] Error restoring image:", error)
+      alert(`Failed to restore image: ${describeApiError(error)}`)
+    }
+  }
+
+  const handlePurge = async (entry: TrashEntry) => {
+    if (!confirm(`Permanently delete this ${entry.image.label}? This cannot be undone.`)) {
+      return
+    }
+
+    try {
+      await apiFetch(`/api/trash?id=${encodeURIComponent(entry.id)}`, { method: "DELETE" })
+      setTrash((prevTrash) => prevTrash.filter((e) => e.id !== entry.id))
+    } catch (error) {
+      // Already gone, e.g. purged in another tab
+      if (error instanceof ApiRequestError && error.code === "not_found") {
+        setTrash((prevTrash) => prevTrash.filter((e) => e.id !== entry.id))
+        return
+      }
+      console.error("[v0] Error purging image:", error)
+      alert(`Failed to purge image: ${describeApiError(error)}`)
+    }
+  }
+
+  const handleRelabel = async (image: ShapeImage, changes: { newLabel?: string; newQuality?: string }) => {
+    try {
+      const data = await apiFetch<{ image: ShapeImage }>("/api/images", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          filename: image.filename,
+          label: image.label,
+          quality: image.quality || defaultQuality,
+          ...changes,
+        }),
+      })
+
+      const updated: ShapeImage = data.image
+      const replace = (img: ShapeImage) => (img.filePath === image.filePath ? updated : img)
+      setImages((prevImages) => prevImages.map(replace))
+      adjustCounts(image, -1)
+      adjustCounts(updated, 1)
+      setDuplicateGroups((prevGroups) => prevGroups.map((group) => group.map(replace)))
+      console.log("[v0] Image relabeled:", image.filename, "->", updated.filePath)
+    } catch (error) {
+      console.error("[v0] Error relabeling image:", error)
+      alert(`Failed to relabel image: ${describeApiError(error)}`)
     }
   }
 
   const handleDelete = async (image: ShapeImage) => {
-    if (!confirm(`Are you sure you want to delete this ${image.label} (${image.quality || "perfect"})?`)) {
+    if (!confirm(`Move this ${image.label} (${image.quality || defaultQuality}) to the trash?`)) {
       return
     }
 
+    const isDeleted = (img: ShapeImage) =>
+      img.filename === image.filename && img.label === image.label && (img.quality || defaultQuality) === (image.quality || defaultQuality)
+    const removeLocally = () => {
+      adjustCounts(image, -1)
+      setImages((prevImages) => prevImages.filter((img) => !isDeleted(img)))
+      setDuplicateGroups((prevGroups) =>
+        prevGroups.map((group) => group.filter((img) => !isDeleted(img))).filter((group) => group.length > 1),
+      )
+    }
+
     try {
-      const response = await fetch("/api/delete", {
+      await apiFetch("/api/delete", {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
@@ -54,129 +347,480 @@ export default function GalleryPage() {
         body: JSON.stringify({
           filename: image.filename,
           label: image.label,
-          quality: image.quality || "perfect",
-          filePath: image.filePath,
+          quality: image.quality || defaultQuality,
         }),
       })
-
-      const data = await response.json()
-      
-      // Remove from local state if deletion was successful or if it was a warning
-      if (response.ok || data.warning) {
-        setImages((prevImages) => prevImages.filter((img) => 
-          !(img.filename === image.filename && img.label === image.label && (img.quality || "perfect") === (image.quality || "perfect"))
-        ))
-        
-        if (data.warning) {
-          console.log("[v0] Image removed from store (file may have been manually deleted):", image.filename)
-        } else {
-          console.log("[v0] Image deleted successfully:", image.filename)
-        }
-      } else {
-        throw new Error(data.error || "Failed to delete image")
-      }
+      removeLocally()
+      console.log("[v0] Image deleted successfully:", image.filename)
     } catch (error) {
+      // 404: the file was already deleted or moved elsewhere, so drop the stale card
+      if (error instanceof ApiRequestError && error.code === "not_found") {
+        removeLocally()
+        console.log("[v0] Image was already gone:", image.filename)
+        return
+      }
       console.error("[v0] Error deleting image:", error)
-      alert(`Failed to delete image: ${error instanceof Error ? error.message : "Unknown error"}`)
+      alert(`Failed to delete image: ${describeApiError(error)}`)
     }
   }
 
-  const filteredImages = images.filter((img) => {
-    const shapeMatch = shapeFilter === "all" || img.label === shapeFilter
-    const qualityMatch = qualityFilter === "all" || img.quality === qualityFilter
-    return shapeMatch && qualityMatch
-  })
+  const sumCounts = (byKey: Record<string, number>) => Object.values(byKey).reduce((sum, count) => sum + count, 0)
+  const hasFilters =
+    shapeFilter !== "all" ||
+    qualityFilter !== "all" ||
+    contributorFilter !== "" ||
+    originFilter !== "all" ||
+    fromDate !== "" ||
+    toDate !== ""
+
+  const renderCard = (image: ShapeImage, key: string | number) => (
+    <div key={key} className="bg-card rounded-lg p-3 shadow relative group">
+      <a href={image.filePath && toFileUrl(image.filePath)} target="_blank" rel="noreferrer" title="Open full size">
+        <img
+          src={image.thumbnailPath || (image.filePath && toFileUrl(image.filePath)) || image.image || "/placeholder.svg"}
+          alt={image.label}
+          loading="lazy"
+          className="w-full h-auto aspect-square border border-border rounded"
+        />
+      </a>
+      <div className="mt-2 space-y-1">
+        {isCurator ? (
+          <>
+            <select
+              value={image.label}
+              onChange={(e) => handleRelabel(image, { newLabel: e.target.value })}
+              className="block w-full text-xs text-center font-medium bg-transparent border border-transparent hover:border-input rounded"
+              title="Change label"
+            >
+              {taxonomy.classes.map((shapeClass) => (
+                <option key={shapeClass.name} value={shapeClass.name}>
+                  {shapeClass.displayName}
+                </option>
+              ))}
+            </select>
+            <select
+              value={image.quality || defaultQuality}
+              onChange={(e) => handleRelabel(image, { newQuality: e.target.value })}
+              className={`block w-full text-xs text-center rounded border border-transparent hover:border-input ${getQualityBadgeClass(image.quality || defaultQuality)}`}
+              title="Change quality"
+            >
+              {taxonomy.qualities.map((level) => (
+                <option key={level.name} value={level.name}>
+                  {level.displayName}
+                </option>
+              ))}
+            </select>
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-center font-medium">
+              {taxonomy.classes.find((shapeClass) => shapeClass.name === image.label)?.displayName ?? image.label}
+            </p>
+            <p className={`text-xs text-center rounded ${getQualityBadgeClass(image.quality || defaultQuality)}`}>
+              {taxonomy.qualities.find((level) => level.name === (image.quality || defaultQuality))?.displayName ??
+                image.quality ??
+                defaultQuality}
+            </p>
+          </>
+        )}
+        {image.metrics && (
+          <p
+            className="text-xs text-muted-foreground text-center"
+            title={[
+              `Circularity: ${image.metrics.circularity}`,
+              `Radius variance: ${image.metrics.radiusVariance}`,
+              `Closure gap: ${Math.round(image.metrics.closureGap * 100)}%`,
+              `Corners: ${image.metrics.cornerCount}`,
+              `Angle deviation: ${image.metrics.angleDeviation}°`,
+              `Side deviation: ${image.metrics.sideDeviation}`,
+              `Measured from: ${image.metrics.source}`,
+            ].join("\n")}
+          >
+            Score {image.metrics.score.toFixed(2)} · {image.metrics.cornerCount} corners
+          </p>
+        )}
+        {image.suggestedQuality && image.quality && image.suggestedQuality !== image.quality && (
+          <p className="text-xs text-yellow-700 text-center">⚠ Suggests {image.suggestedQuality}</p>
+        )}
+        {image.flags && image.flags.length > 0 && (
+          <p className="text-xs text-orange-700 text-center" title={image.flags.map((flag) => flag.message).join("\n")}>
+            ⚑ Flagged ({image.flags.map((flag) => flag.check).join(", ")})
+          </p>
+        )}
+        {((image.strokesPath && image.strokeCount !== undefined) || image.inputDevice) && (
+          <p className="text-xs text-muted-foreground text-center">
+            {image.strokesPath && image.strokeCount !== undefined && (
+              <a href={toFileUrl(image.strokesPath)} target="_blank" rel="noreferrer" className="underline">
+                {image.strokeCount} stroke{image.strokeCount === 1 ? "" : "s"}
+              </a>
+            )}
+            {image.strokesPath && image.strokeCount !== undefined && image.inputDevice && " · "}
+            {image.inputDevice && <span title="Input device">{image.inputDevice}</span>}
+          </p>
+        )}
+        {image.contributor && (
+          <p className="text-xs text-muted-foreground text-center truncate" title="Contributor">
+            by {image.contributor}
+          </p>
+        )}
+        {image.synthetic && (
+          <p className="text-xs text-purple-700 text-center" title="Rendered by the shape generator">
+            ⚙ Synthetic
+          </p>
+        )}
+        {image.importSource && (
+          <p className="text-xs text-blue-700 text-center truncate" title={`Imported from ${image.importSource}`}>
+            ⇪ Imported
+          </p>
+        )}
+      </div>
+      {isCurator && (
+        <Button
+          onClick={() => handleDelete(image)}
+          variant="destructive"
+          size="sm"
+          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Delete image"
+        >
+          ×
+        </Button>
+      )}
+    </div>
+  )
 
   return (
     <div className="min-h-screen bg-muted/30 p-8">
       <div className="max-w-7xl mx-auto">
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-3xl font-semibold">Shape Gallery</h1>
-          <Link href="/">
-            <Button variant="outline">Back to Drawing</Button>
-          </Link>
+          <div className="flex items-center gap-4">
+            {user && user.kind === "user" && (
+              <p className="text-sm text-muted-foreground">
+                Signed in as <span className="font-medium">{user.name}</span> ({user.role}) ·{" "}
+                <button onClick={logout} className="underline">
+                  Log out
+                </button>
+              </p>
+            )}
+            <Link href="/stats">
+              <Button variant="outline">Statistics</Button>
+            </Link>
+            <Link href="/review">
+              <Button variant="outline">Review</Button>
+            </Link>
+            {isCurator && (
+              <Link href="/import">
+                <Button variant="outline">Import</Button>
+              </Link>
+            )}
+            <Link href="/">
+              <Button variant="outline">Back to Drawing</Button>
+            </Link>
+          </div>
         </div>
 
-        <div className="space-y-4 mb-6">
-          <div>
-            <p className="text-sm font-medium mb-2">Filter by Shape:</p>
-            <div className="flex gap-3 flex-wrap">
-              <Button onClick={() => setShapeFilter("all")} variant={shapeFilter === "all" ? "default" : "outline"}>
-                All Shapes ({images.length})
-              </Button>
-              <Button onClick={() => setShapeFilter("circle")} variant={shapeFilter === "circle" ? "default" : "outline"}>
-                Circles ({images.filter((img) => img.label === "circle").length})
-              </Button>
-              <Button onClick={() => setShapeFilter("square")} variant={shapeFilter === "square" ? "default" : "outline"}>
-                Squares ({images.filter((img) => img.label === "square").length})
-              </Button>
-              <Button onClick={() => setShapeFilter("triangle")} variant={shapeFilter === "triangle" ? "default" : "outline"}>
-                Triangles ({images.filter((img) => img.label === "triangle").length})
-              </Button>
-            </div>
-          </div>
-          <div>
-            <p className="text-sm font-medium mb-2">Filter by Quality:</p>
-            <div className="flex gap-3 flex-wrap">
-              <Button onClick={() => setQualityFilter("all")} variant={qualityFilter === "all" ? "default" : "outline"}>
-                All Quality ({images.length})
-              </Button>
-              <Button onClick={() => setQualityFilter("perfect")} variant={qualityFilter === "perfect" ? "default" : "outline"}>
-                Perfect ({images.filter((img) => img.quality === "perfect").length})
-              </Button>
-              <Button onClick={() => setQualityFilter("medium")} variant={qualityFilter === "medium" ? "default" : "outline"}>
-                Medium ({images.filter((img) => img.quality === "medium").length})
-              </Button>
-              <Button onClick={() => setQualityFilter("irregular")} variant={qualityFilter === "irregular" ? "default" : "outline"}>
-                Irregular ({images.filter((img) => img.quality === "irregular").length})
-              </Button>
-            </div>
-          </div>
+        <div className="flex gap-3 mb-6">
+          <Button onClick={() => showView("all")} variant={view === "all" ? "default" : "outline"}>
+            All Images
+          </Button>
+          {isCurator && (
+            <Button onClick={() => showView("duplicates")} variant={view === "duplicates" ? "default" : "outline"}>
+              Possible Duplicates
+            </Button>
+          )}
+          <Button onClick={() => showView("contributors")} variant={view === "contributors" ? "default" : "outline"}>
+            Contributors
+          </Button>
+          {isCurator && (
+            <Button onClick={() => showView("trash")} variant={view === "trash" ? "default" : "outline"}>
+              Trash
+            </Button>
+          )}
         </div>
 
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading images...</p>
-          </div>
-        ) : filteredImages.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">No shapes submitted yet. Start drawing!</p>
-          </div>
+        {view === "contributors" ? (
+          loadingContributors ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Loading contributors...</p>
+            </div>
+          ) : contributors.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No submissions yet.</p>
+            </div>
+          ) : (
+            <div className="bg-card rounded-lg shadow overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-3 font-medium">Contributor</th>
+                    <th className="p-3 font-medium text-right">Total</th>
+                    {taxonomy.classes.map((shapeClass) => (
+                      <th key={shapeClass.name} className="p-3 font-medium text-right">
+                        {shapeClass.displayName}
+                      </th>
+                    ))}
+                    {taxonomy.qualities.map((level) => (
+                      <th key={level.name} className="p-3 font-medium text-right">
+                        {level.displayName}
+                      </th>
+                    ))}
+                    <th className="p-3 font-medium text-right" title="Samples flagged by the submission checks">
+                      Flagged
+                    </th>
+                    <th className="p-3 font-medium text-right" title="Chosen quality differs from the suggested one">
+                      Mismatches
+                    </th>
+                    <th className="p-3 font-medium">Timeline</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contributors.map((stats) => {
+                    const maxPerDay = Math.max(...stats.timeline.map((day) => day.count))
+                    return (
+                      <tr key={stats.contributor ?? ""} className="border-b last:border-0">
+                        <td className="p-3">
+                          {stats.contributor === null ? (
+                            <span className="text-muted-foreground italic">Anonymous</span>
+                          ) : (
+                            <button onClick={() => showContributor(stats.contributor!)} className="underline">
+                              {stats.contributor}
+                            </button>
+                          )}
+                        </td>
+                        <td className="p-3 text-right font-medium">{stats.total}</td>
+                        {taxonomy.classes.map((shapeClass) => (
+                          <td key={shapeClass.name} className="p-3 text-right">
+                            {stats.byLabel[shapeClass.name] ?? 0}
+                          </td>
+                        ))}
+                        {taxonomy.qualities.map((level) => (
+                          <td key={level.name} className="p-3 text-right">
+                            {stats.byQuality[level.name] ?? 0}
+                          </td>
+                        ))}
+                        <td className="p-3 text-right">{stats.flagged}</td>
+                        <td className="p-3 text-right">{stats.qualityMismatches}</td>
+                        <td className="p-3">
+                          <div
+                            className="flex items-end gap-px h-8"
+                            title={`${new Date(stats.firstSubmission).toLocaleDateString()} – ${new Date(stats.lastSubmission).toLocaleDateString()}`}
+                          >
+                            {stats.timeline.map((day) => (
+                              <div
+                                key={day.date}
+                                className="w-2 bg-primary rounded-sm"
+                                style={{ height: `${Math.max(10, (day.count / maxPerDay) * 100)}%` }}
+                                title={`${day.date}: ${day.count}`}
+                              />
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : view === "trash" ? (
+          loadingTrash ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Loading trash...</p>
+            </div>
+          ) : trash.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">The trash is empty.</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground mb-4">
+                Deleted images are kept for {retentionDays} days before they are permanently removed.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {trash.map((entry) => (
+                  <div key={entry.id} className="bg-card rounded-lg p-3 shadow">
+                    <img
+                      src={`/api/trash/${encodeURIComponent(entry.id)}/image`}
+                      alt={entry.image.label}
+                      className="w-full h-auto border border-border rounded opacity-60"
+                    />
+                    <div className="mt-2 space-y-1 text-xs text-center">
+                      <p className="font-medium capitalize">
+                        {entry.image.label} · {entry.image.quality}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Deleted {new Date(entry.deletedAt).toLocaleDateString()} by {entry.deletedBy}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <Button size="sm" variant="outline" className="flex-1" onClick={() => handleRestore(entry)}>
+                        Restore
+                      </Button>
+                      <Button size="sm" variant="destructive" className="flex-1" onClick={() => handlePurge(entry)}>
+                        Purge
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )
+        ) : view === "duplicates" ? (
+          loadingDuplicates ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Looking for similar images...</p>
+            </div>
+          ) : duplicateGroups.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No possible duplicates found.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {duplicateGroups.map((group, groupIndex) => (
+                <div key={groupIndex}>
+                  <p className="text-sm font-medium mb-2">
+                    Group {groupIndex + 1}: {group.length} similar {group[0].label} images
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                    {group.map((image) => renderCard(image, image.filePath || image.filename))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
         ) : (
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-            {filteredImages.map((image, index) => (
-              <div key={index} className="bg-card rounded-lg p-3 shadow relative group">
-                <img
-                  src={image.filePath || image.image || "/placeholder.svg"}
-                  alt={image.label}
-                  className="w-full h-auto border border-border rounded"
-                />
-                <div className="mt-2 space-y-1">
-                  <p className="text-xs text-muted-foreground text-center capitalize font-medium">{image.label}</p>
-                  {image.quality && (
-                    <p className="text-xs text-muted-foreground text-center capitalize">
-                      <span className={`inline-block px-2 py-0.5 rounded ${
-                        image.quality === "perfect" ? "bg-green-100 text-green-800" :
-                        image.quality === "medium" ? "bg-yellow-100 text-yellow-800" :
-                        "bg-red-100 text-red-800"
-                      }`}>
-                        {image.quality}
-                      </span>
-                    </p>
-                  )}
+          <>
+            <div className="space-y-4 mb-6">
+              <div>
+                <p className="text-sm font-medium mb-2">Filter by Shape:</p>
+                <div className="flex gap-3 flex-wrap">
+                  <Button onClick={() => setShapeFilter("all")} variant={shapeFilter === "all" ? "default" : "outline"}>
+                    All Shapes ({sumCounts(counts.byLabel)})
+                  </Button>
+                  {taxonomy.classes.map((shapeClass) => (
+                    <Button
+                      key={shapeClass.name}
+                      onClick={() => setShapeFilter(shapeClass.name)}
+                      variant={shapeFilter === shapeClass.name ? "default" : "outline"}
+                      title={shapeClass.description}
+                    >
+                      {shapeClass.displayName} ({counts.byLabel[shapeClass.name] ?? 0})
+                    </Button>
+                  ))}
                 </div>
-                <Button
-                  onClick={() => handleDelete(image)}
-                  variant="destructive"
-                  size="sm"
-                  className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
-                  title="Delete image"
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Filter by Contributor:</p>
+                <select
+                  value={contributorFilter}
+                  onChange={(e) => setContributorFilter(e.target.value)}
+                  className="px-3 py-2 border border-input rounded-md bg-background text-sm"
                 >
-                  ×
-                </Button>
+                  <option value="">All Contributors</option>
+                  {contributors
+                    .filter((stats) => stats.contributor !== null)
+                    .map((stats) => (
+                      <option key={stats.contributor} value={stats.contributor!}>
+                        {stats.contributor} ({stats.total})
+                      </option>
+                    ))}
+                </select>
               </div>
-            ))}
-          </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Filter by Origin:</p>
+                <select
+                  value={originFilter}
+                  onChange={(e) => setOriginFilter(e.target.value as SampleOrigin | "all")}
+                  className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  <option value="all">All Samples</option>
+                  <option value="drawn">Hand-drawn</option>
+                  <option value="synthetic">Synthetic</option>
+                  <option value="imported">Imported</option>
+                </select>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Filter by Quality:</p>
+                <div className="flex gap-3 flex-wrap">
+                  <Button onClick={() => setQualityFilter("all")} variant={qualityFilter === "all" ? "default" : "outline"}>
+                    All Quality ({sumCounts(counts.byQuality)})
+                  </Button>
+                  {taxonomy.qualities.map((level) => (
+                    <Button
+                      key={level.name}
+                      onClick={() => setQualityFilter(level.name)}
+                      variant={qualityFilter === level.name ? "default" : "outline"}
+                      title={level.description}
+                    >
+                      {level.displayName} ({counts.byQuality[level.name] ?? 0})
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-6 flex-wrap items-end">
+                <div>
+                  <p className="text-sm font-medium mb-2">Sort:</p>
+                  <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as GallerySort)}
+                    className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-2">Submitted:</p>
+                  <div className="flex gap-2 items-center text-sm">
+                    <input
+                      type="date"
+                      value={fromDate}
+                      max={toDate || undefined}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      className="px-3 py-2 border border-input rounded-md bg-background"
+                      aria-label="From date"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <input
+                      type="date"
+                      value={toDate}
+                      min={fromDate || undefined}
+                      onChange={(e) => setToDate(e.target.value)}
+                      className="px-3 py-2 border border-input rounded-md bg-background"
+                      aria-label="To date"
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Loading images...</p>
+              </div>
+            ) : images.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">
+                  {hasFilters ? "No images match these filters." : "No shapes submitted yet. Start drawing!"}
+                </p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Showing {images.length} of {counts.total} images
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                  {images.map((image) => renderCard(image, image.filePath || image.filename))}
+                </div>
+                <div ref={sentinelRef} className="text-center py-6">
+                  {loadingMore && <p className="text-muted-foreground">Loading more...</p>}
+                </div>
+              </>
+            )}
+          </>
         )}
       </div>
     </div>
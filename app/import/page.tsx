@@ -0,0 +1,340 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import type { Taxonomy } from "@/lib/taxonomy"
+import type { Principal } from "@/lib/auth"
+import type { ImportStatus } from "@/lib/import"
+import { apiFetch, describeApiError } from "@/lib/api-client"
+
+// How often a running import is polled
+const POLL_MS = 1000
+
+// Skipped and rejected drawings listed in the report; the counts cover the rest
+const MAX_LISTED_ITEMS = 200
+
+// A file as picked, with its path inside the picked folder (if any)
+type PickedFile = { file: File; path: string }
+
+export default function ImportPage() {
+  const [user, setUser] = useState<Principal | null>(null)
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ classes: [], qualities: [] })
+  const [files, setFiles] = useState<PickedFile[]>([])
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [quality, setQuality] = useState<string>("")
+  const [contributor, setContributor] = useState<string>("")
+  const [status, setStatus] = useState<ImportStatus | null>(null)
+  // Whether `status` is a finished dry run of the current files and mapping
+  const [dryRunCurrent, setDryRunCurrent] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string>("")
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const data = await apiFetch<{ status: ImportStatus | null }>("/api/import")
+      setStatus(data.status)
+    } catch (error) {
+      console.error("[v0] Error loading import status:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session")
+        const data = await response.json()
+        if (!data.user) {
+          window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+          return
+        }
+        setUser(data.user)
+        if (data.user.role !== "curator") return
+        setTaxonomy(await apiFetch<Taxonomy>("/api/taxonomy"))
+        await fetchStatus()
+      } catch (error) {
+        console.error("[v0] Error loading import page:", error)
+        setError(describeApiError(error))
+      }
+    }
+    fetchSession()
+  }, [fetchStatus])
+
+  // React has no prop for picking a whole folder
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  }, [user])
+
+  const running = status?.running ?? false
+  useEffect(() => {
+    if (!running) return
+    const timer = setInterval(fetchStatus, POLL_MS)
+    return () => clearInterval(timer)
+  }, [running, fetchStatus])
+
+  const pickFiles = (list: FileList | null) => {
+    if (!list) return
+    const picked = Array.from(list, (file) => ({ file, path: file.webkitRelativePath || file.name }))
+    setFiles((prev) => [...prev, ...picked])
+    setDryRunCurrent(false)
+  }
+
+  const changeMapping = (sourceClass: string, label: string) => {
+    setMapping((prev) => ({ ...prev, [sourceClass]: label }))
+    setDryRunCurrent(false)
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setIsUploading(true)
+    setError("")
+    try {
+      const form = new FormData()
+      files.forEach(({ file, path }) => {
+        form.append("files", file)
+        form.append("paths", path)
+      })
+      form.append(
+        "options",
+        JSON.stringify({
+          mapping,
+          quality: quality || undefined,
+          contributor: contributor.trim() || undefined,
+          dryRun,
+        }),
+      )
+      const data = await apiFetch<{ status: ImportStatus }>("/api/import", { method: "POST", body: form })
+      setStatus(data.status)
+      setDryRunCurrent(dryRun)
+      if (!dryRun) setFiles([])
+    } catch (error) {
+      console.error("[v0] Error starting import:", error)
+      setError(describeApiError(error))
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  if (user && user.role !== "curator") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <p className="text-muted-foreground">Only curators can import drawings.</p>
+      </div>
+    )
+  }
+
+  const report = status?.report
+  const listedItems = report?.items.filter((item) => item.outcome !== "imported").slice(0, MAX_LISTED_ITEMS) ?? []
+  const totalBytes = files.reduce((sum, { file }) => sum + file.size, 0)
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold">Import Drawings</h1>
+          <div className="flex items-center gap-4">
+            {user && user.kind === "user" && (
+              <p className="text-sm text-muted-foreground">
+                Signed in as <span className="font-medium">{user.name}</span> ({user.role})
+              </p>
+            )}
+            <Link href="/gallery">
+              <Button variant="outline">Gallery</Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline">Back to Drawing</Button>
+            </Link>
+          </div>
+        </div>
+
+        <section className="bg-card rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Files</h2>
+          <p className="text-sm text-muted-foreground">
+            PNG or JPG drawings (a folder keeps its subfolders, which name the class and optionally the quality), ZIP
+            archives of them, and QuickDraw <code>.ndjson</code> files.
+          </p>
+          <div className="flex items-center gap-4 flex-wrap text-sm">
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Add files:</span>
+              <input
+                type="file"
+                multiple
+                accept=".png,.jpg,.jpeg,.zip,.ndjson"
+                onChange={(e) => {
+                  pickFiles(e.target.files)
+                  e.target.value = ""
+                }}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Add a folder:</span>
+              <input
+                ref={folderInputRef}
+                type="file"
+                onChange={(e) => {
+                  pickFiles(e.target.files)
+                  e.target.value = ""
+                }}
+              />
+            </label>
+          </div>
+          {files.length > 0 && (
+            <div className="flex items-center gap-4 text-sm">
+              <p>
+                {files.length} file{files.length === 1 ? "" : "s"} selected ({(totalBytes / (1024 * 1024)).toFixed(1)}{" "}
+                MB)
+              </p>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setFiles([])
+                  setDryRunCurrent(false)
+                }}
+              >
+                Clear
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center gap-4 flex-wrap text-sm">
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Quality:</span>
+              <select
+                value={quality}
+                onChange={(e) => {
+                  setQuality(e.target.value)
+                  setDryRunCurrent(false)
+                }}
+                className="px-3 py-2 border border-input rounded-md bg-background"
+              >
+                <option value="">Suggested by shape analysis</option>
+                {taxonomy.qualities.map((level) => (
+                  <option key={level.name} value={level.name}>
+                    {level.displayName}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="font-medium">Credit to:</span>
+              <input
+                type="text"
+                value={contributor}
+                onChange={(e) => setContributor(e.target.value)}
+                placeholder="Contributor (optional)"
+                className="px-3 py-2 border border-input rounded-md bg-background"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A quality folder in a drawing&apos;s path (e.g. <code>circles/perfect/</code>) takes precedence.
+          </p>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => runImport(true)} disabled={files.length === 0 || isUploading || running}>
+              Dry run
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={files.length === 0 || isUploading || running || !dryRunCurrent}
+              title={dryRunCurrent ? undefined : "Do a dry run of these files and this mapping first"}
+            >
+              Import
+            </Button>
+          </div>
+          {isUploading && <p className="text-sm text-muted-foreground">Uploading...</p>}
+          {error && <p className="text-red-600">✗ {error}</p>}
+        </section>
+
+        {report && Object.keys(report.classes).length > 0 && (
+          <section className="bg-card rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4">Class Mapping</h2>
+            <table className="text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2 font-medium">Source class</th>
+                  <th className="p-2 font-medium text-right">Drawings</th>
+                  <th className="p-2 font-medium">Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(report.classes).map(([sourceClass, entry]) => (
+                  <tr key={sourceClass} className="border-b last:border-0">
+                    <td className="p-2 font-medium">{sourceClass}</td>
+                    <td className="p-2 text-right">{entry.count}</td>
+                    <td className="p-2">
+                      <select
+                        value={mapping[sourceClass] ?? entry.label ?? ""}
+                        onChange={(e) => changeMapping(sourceClass, e.target.value)}
+                        className="px-2 py-1 border border-input rounded-md bg-background"
+                      >
+                        <option value="">Leave out</option>
+                        {taxonomy.classes.map((shapeClass) => (
+                          <option key={shapeClass.name} value={shapeClass.name}>
+                            {shapeClass.displayName}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!dryRunCurrent && (
+              <p className="text-xs text-muted-foreground mt-4">Run the dry run again to see the effect of your changes.</p>
+            )}
+          </section>
+        )}
+
+        {report && (
+          <section className="bg-card rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4">{report.dryRun ? "Dry Run Report" : "Import Report"}</h2>
+            {running && (
+              <p className="text-sm text-muted-foreground mb-4">
+                {report.dryRun ? "Checking" : "Importing"}... {status!.processed} / {status!.total}
+              </p>
+            )}
+            <div className="grid grid-cols-3 gap-4 mb-6 text-sm max-w-xl">
+              <div>
+                <p className="text-muted-foreground">{report.dryRun ? "Would be imported" : "Imported"}</p>
+                <p className="text-2xl font-semibold text-green-700">{report.imported}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Skipped</p>
+                <p className="text-2xl font-semibold">{report.skipped}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Rejected</p>
+                <p className="text-2xl font-semibold text-red-600">{report.rejected}</p>
+              </div>
+            </div>
+            {listedItems.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2 font-medium">Source</th>
+                    <th className="p-2 font-medium">Outcome</th>
+                    <th className="p-2 font-medium">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedItems.map((item) => (
+                    <tr key={item.source} className="border-b last:border-0">
+                      <td className="p-2 font-mono text-xs break-all">{item.source}</td>
+                      <td className={`p-2 ${item.outcome === "rejected" ? "text-red-600" : ""}`}>{item.outcome}</td>
+                      <td className="p-2">{item.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.skipped + report.rejected > listedItems.length && (
+              <p className="text-xs text-muted-foreground mt-4">
+                Showing the first {listedItems.length}; <code>GET /api/import</code> returns every item.
+              </p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
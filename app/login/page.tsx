@@ -0,0 +1,94 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+
+/**
+ * Where to go after logging in: the `next` parameter, but only when it stays
+ * on this site, so the login page can't be used as an open redirect.
+ * Browsers read "\" as "/" in URLs, so a check on the leading characters
+ * alone would let "/\evil.com" through; the resolved origin can't be fooled.
+ */
+function getRedirectTarget(next: string | null): string {
+  if (!next) return "/"
+  try {
+    const target = new URL(next, window.location.origin)
+    return target.origin === window.location.origin ? target.pathname + target.search + target.hash : "/"
+  } catch {
+    return "/"
+  }
+}
+
+export default function LoginPage() {
+  const [username, setUsername] = useState<string>("")
+  const [password, setPassword] = useState<string>("")
+  const [error, setError] = useState<string>("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ username, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to log in")
+      }
+
+      window.location.href = getRedirectTarget(new URLSearchParams(window.location.search).get("next"))
+    } catch (error) {
+      console.error("[v0] Error logging in:", error)
+      setError(error instanceof Error ? error.message : "Unknown error")
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30">
+      <form onSubmit={handleSubmit} className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4">
+        <h1 className="text-2xl font-semibold">Log in</h1>
+        <div className="space-y-1">
+          <label htmlFor="username" className="text-sm font-medium">
+            Username
+          </label>
+          <input
+            id="username"
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full px-3 py-2 border border-input rounded-md bg-background"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="password" className="text-sm font-medium">
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-input rounded-md bg-background"
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={submitting || !username || !password}>
+          {submitting ? "Logging in..." : "Log in"}
+        </Button>
+        {error && <p className="text-center text-sm text-red-600">✗ {error}</p>}
+      </form>
+    </div>
+  )
+}
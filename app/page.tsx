@@ -4,13 +4,302 @@ import type React from "react"
 
 import { useRef, useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
+import type { InputDevice, Stroke, StrokePoint } from "@/lib/strokes"
+import type { Taxonomy } from "@/lib/taxonomy"
+import type { Principal } from "@/lib/auth"
+import type { Campaign, CampaignProgress, QuotaCell } from "@/lib/campaigns"
+import type { Prediction } from "@/lib/classifier"
+import { apiFetch, describeApiError, isRetryableError } from "@/lib/api-client"
+import {
+  enqueueSubmission,
+  getQueuedSubmissions,
+  getRetryDelay,
+  newSubmissionId,
+  removeQueuedSubmission,
+  updateQueuedSubmission,
+  type QueuedSubmission,
+  type SubmissionPayload,
+} from "@/lib/submission-queue"
+
+// A stroke as drawn, with the brush settings needed to redraw it
+type DrawnStroke = {
+  points: Stroke
+  size: number // brush size in px at normal pressure
+  device: InputDevice
+}
+
+// Response of POST /api/submit
+type SubmitResult = {
+  filename: string
+  suggestedQuality: string
+  score: number
+  qualityMismatch: boolean
+  flags: { message: string }[]
+}
+
+type CampaignSummary = Pick<Campaign, "id" | "name" | "description">
+
+const CONTRIBUTOR_STORAGE_KEY = "shape-contributor"
+const GUIDED_STORAGE_KEY = "shape-guided-campaign"
+
+// Pause after the last stroke before asking the baseline classifier for a guess
+const PREDICT_DELAY_MS = 300
+
+/**
+ * Line width at a point: pressure 0.5 (the Pointer Events default while
+ * pressed) draws at the brush size, lighter or firmer pen pressure thins or
+ * thickens the line
+ */
+function lineWidthAt(point: StrokePoint, size: number): number {
+  return point.pressure === undefined ? size : size * (0.4 + 1.2 * point.pressure)
+}
+
+function drawSegment(ctx: CanvasRenderingContext2D, from: StrokePoint, to: StrokePoint, size: number) {
+  ctx.lineWidth = (lineWidthAt(from, size) + lineWidthAt(to, size)) / 2
+  ctx.beginPath()
+  ctx.moveTo(from.x, from.y)
+  ctx.lineTo(to.x, to.y)
+  ctx.stroke()
+}
+
+function drawDot(ctx: CanvasRenderingContext2D, point: StrokePoint, size: number) {
+  ctx.beginPath()
+  ctx.arc(point.x, point.y, lineWidthAt(point, size) / 2, 0, 2 * Math.PI)
+  ctx.fill()
+}
 
 export default function ShapeDrawingApp() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [isDrawing, setIsDrawing] = useState(false)
-  const [selectedShape, setSelectedShape] = useState<"circle" | "square" | "triangle">("circle")
-  const [selectedQuality, setSelectedQuality] = useState<"perfect" | "medium" | "irregular">("perfect")
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null)
+  const [user, setUser] = useState<Principal | null>(null)
+  const [selectedShape, setSelectedShape] = useState<string>("")
+  const [selectedQuality, setSelectedQuality] = useState<string>("")
   const [submitStatus, setSubmitStatus] = useState<string>("")
+  const [qualityWarning, setQualityWarning] = useState<string>("")
+  // Remembered in localStorage so returning contributors don't retype it
+  const [contributor, setContributor] = useState<string>("")
+  // Guided mode asks the server which label and quality to draw next, to fill a campaign's quotas
+  const [guided, setGuided] = useState(false)
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([])
+  const [campaignId, setCampaignId] = useState<string>("")
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress | null>(null)
+  const [prompt, setPrompt] = useState<QuotaCell | null>(null)
+  const [brushSize, setBrushSize] = useState<number>(3)
+  // 0 draws raw input; higher values follow the pointer more lazily for steadier lines
+  const [smoothing, setSmoothing] = useState<number>(0.3)
+  // The drawing is a list of strokes; the canvas is redrawn from it whenever it changes.
+  // Timestamps are relative to drawingStartRef.
+  // `undone` holds strokes removed by undo, most recent last.
+  const [history, setHistory] = useState<{ strokes: DrawnStroke[]; undone: DrawnStroke[] }>({
+    strokes: [],
+    undone: [],
+  })
+  const { strokes, undone } = history
+  // Stroke being drawn; committed to `strokes` when the pen lifts
+  const currentStrokeRef = useRef<DrawnStroke | null>(null)
+  // Only the pointer that started the stroke draws, so a second finger or a palm is ignored
+  const activePointerRef = useRef<number | null>(null)
+  const drawingStartRef = useRef<number | null>(null)
+  // Drawings that could not be uploaded yet, mirrored from IndexedDB
+  const [queue, setQueue] = useState<QueuedSubmission[]>([])
+  const flushingRef = useRef(false)
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Timers and the "online" listener always call the latest flushQueue, which sees current state
+  const flushQueueRef = useRef<(force?: boolean) => Promise<void>>(async () => {})
+  // The baseline classifier's guess for the current drawing; null before training or on a blank canvas
+  const [prediction, setPrediction] = useState<Prediction | null>(null)
+  // Responses to superseded requests are dropped
+  const predictRequestRef = useRef(0)
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session")
+        const data = await response.json()
+        if (!data.user) {
+          window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+          return
+        }
+        setUser(data.user)
+        await fetchTaxonomy()
+        await fetchCampaigns()
+      } catch (error) {
+        console.error("[v0] Error loading session:", error)
+      }
+    }
+    const fetchTaxonomy = async () => {
+      try {
+        const data = await apiFetch<Taxonomy>("/api/taxonomy")
+        setTaxonomy(data)
+        setSelectedShape(data.classes[0]?.name ?? "")
+        setSelectedQuality(data.qualities[0]?.name ?? "")
+      } catch (error) {
+        console.error("[v0] Error loading taxonomy:", error)
+        setSubmitStatus("✗ Failed to load shape list")
+      }
+    }
+    const fetchCampaigns = async () => {
+      try {
+        const data = await apiFetch<{ active: string; campaigns: CampaignSummary[] }>("/api/campaigns")
+        setCampaigns(data.campaigns)
+        // Returning users stay in guided mode, on the campaign they last worked on if it still exists
+        const remembered = localStorage.getItem(GUIDED_STORAGE_KEY)
+        const rememberedCampaign = data.campaigns.find((campaign) => campaign.id === remembered)
+        setCampaignId(rememberedCampaign?.id ?? data.active)
+        setGuided(remembered !== null)
+      } catch (error) {
+        console.error("[v0] Error loading campaigns:", error)
+      }
+    }
+    fetchSession()
+    setContributor(localStorage.getItem(CONTRIBUTOR_STORAGE_KEY) ?? "")
+  }, [])
+
+  useEffect(() => {
+    // Coming back online retries everything straight away instead of waiting out the backoff
+    const onOnline = () => flushQueueRef.current(true)
+    window.addEventListener("online", onOnline)
+    flushQueueRef.current()
+    return () => {
+      window.removeEventListener("online", onOnline)
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (guided && campaignId) {
+      fetchPrompt(campaignId)
+    }
+  }, [guided, campaignId])
+
+  /**
+   * Loads the campaign's progress and selects the combination it needs most
+   */
+  const fetchPrompt = async (id: string) => {
+    try {
+      const data = await apiFetch<{ progress: CampaignProgress; prompt: QuotaCell | null }>(
+        `/api/campaigns/${encodeURIComponent(id)}`,
+      )
+      setCampaignProgress(data.progress)
+      setPrompt(data.prompt)
+      if (data.prompt) {
+        setSelectedShape(data.prompt.label)
+        setSelectedQuality(data.prompt.quality)
+      }
+    } catch (error) {
+      console.error("[v0] Error loading campaign progress:", error)
+      setSubmitStatus(`✗ Failed to load campaign: ${describeApiError(error)}`)
+    }
+  }
+
+  const sendSubmission = (id: string, payload: SubmissionPayload) =>
+    apiFetch<SubmitResult>("/api/submit", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": id,
+      },
+      body: JSON.stringify(payload),
+    })
+
+  /**
+   * Reloads the queue from IndexedDB and sets a timer for the next due retry
+   */
+  const refreshQueue = async () => {
+    const entries = await getQueuedSubmissions()
+    setQueue(entries)
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    retryTimerRef.current = null
+    // While the browser knows it is offline, the "online" event takes care of the next attempt
+    const pending = entries.filter((entry) => entry.status === "pending")
+    if (pending.length > 0 && navigator.onLine) {
+      const nextAttemptAt = Math.min(...pending.map((entry) => entry.nextAttemptAt))
+      retryTimerRef.current = setTimeout(() => flushQueueRef.current(), Math.max(0, nextAttemptAt - Date.now()))
+    }
+  }
+
+  /**
+   * Uploads queued drawings whose retry is due
+   * @param force - Retry every pending drawing now, ignoring the backoff
+   */
+  const flushQueue = async (force = false) => {
+    if (flushingRef.current) return
+    flushingRef.current = true
+    let uploaded = 0
+    try {
+      const entries = await getQueuedSubmissions()
+      for (const entry of entries) {
+        if (entry.status !== "pending" || (!force && entry.nextAttemptAt > Date.now())) continue
+        if (!navigator.onLine) break
+        try {
+          await sendSubmission(entry.id, entry.payload)
+          await removeQueuedSubmission(entry.id)
+          uploaded++
+        } catch (error) {
+          const attempts = entry.attempts + 1
+          console.error(`[v0] Queued submission failed (attempt ${attempts}):`, error)
+          await updateQueuedSubmission({
+            ...entry,
+            attempts,
+            nextAttemptAt: Date.now() + getRetryDelay(attempts),
+            status: isRetryableError(error) ? "pending" : "failed",
+            lastError: describeApiError(error),
+          })
+        }
+      }
+      await refreshQueue()
+    } catch (error) {
+      console.error("[v0] Error processing submission queue:", error)
+    } finally {
+      flushingRef.current = false
+    }
+
+    if (uploaded > 0) {
+      setSubmitStatus(`✓ Uploaded ${uploaded} queued drawing${uploaded === 1 ? "" : "s"}`)
+      setTimeout(() => setSubmitStatus(""), 3000)
+      if (guided && campaignId) {
+        fetchPrompt(campaignId)
+      }
+    }
+  }
+  flushQueueRef.current = flushQueue
+
+  const discardFailed = async () => {
+    try {
+      await Promise.all(
+        queue.filter((entry) => entry.status === "failed").map((entry) => removeQueuedSubmission(entry.id)),
+      )
+      await refreshQueue()
+    } catch (error) {
+      console.error("[v0] Error discarding queued submissions:", error)
+    }
+  }
+
+  const changeGuided = (value: boolean, id: string = campaignId) => {
+    setGuided(value)
+    setCampaignId(id)
+    if (value) {
+      localStorage.setItem(GUIDED_STORAGE_KEY, id)
+    } else {
+      localStorage.removeItem(GUIDED_STORAGE_KEY)
+      setPrompt(null)
+      setCampaignProgress(null)
+    }
+  }
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    window.location.href = "/login"
+  }
+
+  const changeContributor = (value: string) => {
+    setContributor(value)
+    if (value.trim()) {
+      localStorage.setItem(CONTRIBUTOR_STORAGE_KEY, value.trim())
+    } else {
+      localStorage.removeItem(CONTRIBUTOR_STORAGE_KEY)
+    }
+  }
 
   useEffect(() => {
     const canvas = canvasRef.current
@@ -25,38 +314,112 @@ export default function ShapeDrawingApp() {
 
     // Set drawing style
     ctx.strokeStyle = "black"
-    ctx.lineWidth = 3
+    ctx.fillStyle = "black"
     ctx.lineCap = "round"
     ctx.lineJoin = "round"
-  }, [])
 
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+    // Replay the stroke history
+    strokes.forEach(({ points, size }) => {
+      if (points.length === 1) {
+        drawDot(ctx, points[0], size)
+      }
+      points.slice(1).forEach((point, i) => drawSegment(ctx, points[i], point, size))
+    })
+  }, [strokes])
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
+  // Ask for a new guess whenever the drawing changes
+  useEffect(() => {
+    const requestId = ++predictRequestRef.current
+    if (strokes.length === 0) {
+      setPrediction(null)
+      return
+    }
+    const timer = setTimeout(async () => {
+      const canvas = canvasRef.current
+      if (!canvas) return
+      try {
+        const data = await apiFetch<{ prediction: Prediction | null }>("/api/predict", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ image: canvas.toDataURL("image/png") }),
+        })
+        if (requestId === predictRequestRef.current) setPrediction(data.prediction)
+      } catch (error) {
+        console.error("[v0] Error predicting shape:", error)
+      }
+    }, PREDICT_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [strokes])
+
+  const undo = () => {
+    if (currentStrokeRef.current) return
+    setHistory((prev) =>
+      prev.strokes.length === 0
+        ? prev
+        : { strokes: prev.strokes.slice(0, -1), undone: [...prev.undone, prev.strokes[prev.strokes.length - 1]] },
+    )
+  }
 
-    setIsDrawing(true)
+  const redo = () => {
+    if (currentStrokeRef.current) return
+    setHistory((prev) =>
+      prev.undone.length === 0
+        ? prev
+        : { strokes: [...prev.strokes, prev.undone[prev.undone.length - 1]], undone: prev.undone.slice(0, -1) },
+    )
+  }
 
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes; Cmd works in place of Ctrl on macOS
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  const recordPoint = (e: PointerEvent, previous: StrokePoint | undefined): StrokePoint => {
+    const canvas = canvasRef.current!
     const rect = canvas.getBoundingClientRect()
-    let x: number, y: number
+    let x = e.clientX - rect.left
+    let y = e.clientY - rect.top
 
-    if ("touches" in e) {
-      e.preventDefault()
-      x = e.touches[0].clientX - rect.left
-      y = e.touches[0].clientY - rect.top
-    } else {
-      x = e.clientX - rect.left
-      y = e.clientY - rect.top
+    // Exponential smoothing towards the raw pointer position
+    if (previous) {
+      x = previous.x + (x - previous.x) * (1 - smoothing)
+      y = previous.y + (y - previous.y) * (1 - smoothing)
     }
 
-    ctx.beginPath()
-    ctx.moveTo(x, y)
+    const now = performance.now()
+    if (drawingStartRef.current === null) {
+      drawingStartRef.current = now
+    }
+    const point: StrokePoint = { x, y, t: Math.round(now - drawingStartRef.current) }
+    // Mice always report 0.5 while pressed, and devices without pressure report 0
+    if (e.pointerType !== "mouse" && e.pressure > 0) {
+      point.pressure = e.pressure
+    }
+    if (e.pointerType === "pen") {
+      point.tiltX = e.tiltX
+      point.tiltY = e.tiltY
+    }
+    return point
   }
 
-  const draw = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (activePointerRef.current !== null) return
+    if (e.pointerType === "mouse" && e.button !== 0) return
 
     const canvas = canvasRef.current
     if (!canvas) return
@@ -64,63 +427,81 @@ export default function ShapeDrawingApp() {
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    const rect = canvas.getBoundingClientRect()
-    let x: number, y: number
+    e.preventDefault()
+    canvas.setPointerCapture(e.pointerId)
+    activePointerRef.current = e.pointerId
 
-    if ("touches" in e) {
-      e.preventDefault()
-      x = e.touches[0].clientX - rect.left
-      y = e.touches[0].clientY - rect.top
-    } else {
-      x = e.clientX - rect.left
-      y = e.clientY - rect.top
+    const point = recordPoint(e.nativeEvent, undefined)
+    currentStrokeRef.current = {
+      points: [point],
+      size: brushSize,
+      device: e.pointerType === "pen" || e.pointerType === "touch" ? e.pointerType : "mouse",
     }
-
-    ctx.lineTo(x, y)
-    ctx.stroke()
+    drawDot(ctx, point, brushSize)
   }
 
-  const stopDrawing = () => {
-    setIsDrawing(false)
-  }
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current
+    if (e.pointerId !== activePointerRef.current || !stroke) return
 
-  const clearCanvas = () => {
     const canvas = canvasRef.current
     if (!canvas) return
 
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    ctx.fillStyle = "white"
-    ctx.fillRect(0, 0, 256, 256)
+    e.preventDefault()
+
+    // Pens and touch screens sample faster than the frame rate; coalesced events keep the detail
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? []
+    const events = coalesced.length > 0 ? coalesced : [e.nativeEvent]
+    events.forEach((event) => {
+      const previous = stroke.points[stroke.points.length - 1]
+      const point = recordPoint(event, previous)
+      stroke.points.push(point)
+      drawSegment(ctx, previous, point, stroke.size)
+    })
+  }
+
+  const stopDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerRef.current) return
+    activePointerRef.current = null
+
+    // Commit the finished stroke; a new stroke invalidates anything undone
+    const stroke = currentStrokeRef.current
+    if (!stroke) return
+    currentStrokeRef.current = null
+    setHistory((prev) => ({ strokes: [...prev.strokes, stroke], undone: [] }))
+  }
+
+  /**
+   * Device used for most of the drawing, by number of sampled points
+   */
+  const getInputDevice = (): InputDevice | undefined => {
+    const counts = new Map<InputDevice, number>()
+    strokes.forEach(({ points, device }) => counts.set(device, (counts.get(device) ?? 0) + points.length))
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+  }
+
+  const clearCanvas = () => {
+    currentStrokeRef.current = null
+    activePointerRef.current = null
+    setHistory({ strokes: [], undone: [] })
+    drawingStartRef.current = null
     setSubmitStatus("")
   }
 
-  const isCanvasEmpty = (): boolean => {
-    const canvas = canvasRef.current
-    if (!canvas) return true
+  const pendingCount = queue.filter((entry) => entry.status === "pending").length
+  const failedCount = queue.length - pendingCount
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return true
-
-    // Get image data from canvas
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-    const data = imageData.data
-
-    // Check if canvas is all white (empty)
-    // A white pixel has RGB values of 255, 255, 255, 255 (with alpha)
-    for (let i = 0; i < data.length; i += 4) {
-      // Check if pixel is not white (allowing for slight variations)
-      if (data[i] !== 255 || data[i + 1] !== 255 || data[i + 2] !== 255) {
-        return false // Found a non-white pixel, canvas is not empty
-      }
-    }
-    return true // All pixels are white, canvas is empty
+  const isCanvasEmpty = (): boolean => {
+    // The canvas is redrawn from the stroke model, so no strokes means nothing drawn
+    return strokes.every(({ points }) => points.length === 0)
   }
 
   const submitDrawing = async () => {
     const canvas = canvasRef.current
-    if (!canvas) return
+    if (!canvas || !selectedShape || !selectedQuality) return
 
     // Check if canvas is empty
     if (isCanvasEmpty()) {
@@ -136,33 +517,54 @@ export default function ShapeDrawingApp() {
     const imageData = canvas.toDataURL("image/png")
     console.log("[v0] Image data length:", imageData.length)
 
+    const payload: SubmissionPayload = {
+      image: imageData,
+      label: selectedShape,
+      quality: selectedQuality,
+      strokes: strokes.map(({ points }) => points),
+      inputDevice: getInputDevice(),
+      contributor: contributor.trim(),
+      campaign: guided ? campaignId : undefined,
+    }
+    // The same key goes with every retry, so the server stores the drawing only once
+    const submissionId = newSubmissionId()
+
     try {
       // Send to API route to save to filesystem
-      const response = await fetch("/api/submit", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image: imageData,
-          label: selectedShape,
-          quality: selectedQuality,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Failed to save image")
-      }
-
-      const result = await response.json()
+      const result = await sendSubmission(submissionId, payload)
       console.log("[v0] Image saved successfully:", result.filename)
       setSubmitStatus(`✓ Saved as ${result.filename}`)
       clearCanvas()
+      if (guided) {
+        fetchPrompt(campaignId)
+      }
       setTimeout(() => setSubmitStatus(""), 3000)
+
+      // Let the user know when the geometric analysis disagrees with their grade,
+      // or the submission checks flagged the drawing for review
+      const warnings = result.flags.map((flag) => flag.message)
+      if (result.qualityMismatch) {
+        const suggested =
+          taxonomy?.qualities.find((level) => level.name === result.suggestedQuality)?.displayName ?? result.suggestedQuality
+        warnings.unshift(`Shape analysis suggests "${suggested}" (score ${result.score.toFixed(2)})`)
+      }
+      setQualityWarning(warnings.length > 0 ? `⚠ ${warnings.join(" · ")}` : "")
     } catch (error) {
       console.error("[v0] Error saving image:", error)
-      setSubmitStatus(`✗ Failed to save: ${error instanceof Error ? error.message : "Unknown error"}`)
+      // Network trouble: keep the drawing on this device and upload it later
+      if (isRetryableError(error)) {
+        try {
+          await enqueueSubmission(submissionId, payload, describeApiError(error))
+          clearCanvas()
+          setQualityWarning("")
+          setSubmitStatus("⏳ Couldn't reach the server; the drawing is saved on this device and will upload automatically")
+          await refreshQueue()
+          return
+        } catch (queueError) {
+          console.error("[v0] Error queueing submission:", queueError)
+        }
+      }
+      setSubmitStatus(`✗ Failed to save: ${describeApiError(error)}`)
     }
   }
 
@@ -184,8 +586,99 @@ export default function ShapeDrawingApp() {
             View Gallery
           </a>
         </div>
+        {user && user.kind === "user" && (
+          <p className="text-sm text-muted-foreground -mt-4 mb-4">
+            Signed in as <span className="font-medium">{user.name}</span> ({user.role}) ·{" "}
+            <button onClick={logout} className="underline">
+              Log out
+            </button>
+          </p>
+        )}
 
         <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <label htmlFor="contributor" className="font-medium">
+              Your name:
+            </label>
+            <input
+              id="contributor"
+              type="text"
+              value={contributor}
+              onChange={(e) => changeContributor(e.target.value)}
+              placeholder={user?.kind === "user" ? user.name : "Name or code (optional)"}
+              maxLength={64}
+              className="flex-1 px-3 py-2 border border-input rounded-md bg-background"
+            />
+          </div>
+          {campaigns.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium">Mode:</span>
+              <Button size="sm" variant={guided ? "outline" : "default"} onClick={() => changeGuided(false)}>
+                Free drawing
+              </Button>
+              <Button
+                size="sm"
+                variant={guided ? "default" : "outline"}
+                onClick={() => changeGuided(true)}
+                title="Draw what the dataset needs most"
+              >
+                Guided
+              </Button>
+              {guided && campaigns.length > 1 && (
+                <select
+                  value={campaignId}
+                  onChange={(e) => changeGuided(true, e.target.value)}
+                  className="px-3 py-1.5 border border-input rounded-md bg-background text-sm"
+                  aria-label="Campaign"
+                >
+                  {campaigns.map((campaign) => (
+                    <option key={campaign.id} value={campaign.id} title={campaign.description}>
+                      {campaign.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+          {guided && campaignProgress && (
+            <div className="rounded-md border border-border bg-muted/40 p-3 space-y-2 text-sm">
+              {prompt ? (
+                <>
+                  <p>
+                    Please draw a{" "}
+                    <span className="font-semibold">
+                      {taxonomy?.classes.find((shapeClass) => shapeClass.name === prompt.label)?.displayName ??
+                        prompt.label}
+                    </span>
+                    , quality{" "}
+                    <span className="font-semibold">
+                      {taxonomy?.qualities.find((level) => level.name === prompt.quality)?.displayName ??
+                        prompt.quality}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {taxonomy?.qualities.find((level) => level.name === prompt.quality)?.description} ·{" "}
+                    {prompt.count} of {prompt.quota} collected
+                  </p>
+                </>
+              ) : (
+                <p className="text-green-700">✓ Every quota in this campaign is met. Thank you!</p>
+              )}
+              <div title={`${campaignProgress.collected} of ${campaignProgress.required} samples`}>
+                <div className="h-2 bg-muted rounded">
+                  <div
+                    className="h-2 rounded bg-primary"
+                    style={{
+                      width: `${campaignProgress.required > 0 ? (campaignProgress.collected / campaignProgress.required) * 100 : 100}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {campaignProgress.campaign.name}: {campaignProgress.collected} of {campaignProgress.required} samples
+                </p>
+              </div>
+            </div>
+          )}
           <div className="flex items-center gap-4 flex-wrap">
             <div className="flex items-center gap-2">
               <label htmlFor="shape-select" className="font-medium">
@@ -194,12 +687,15 @@ export default function ShapeDrawingApp() {
               <select
                 id="shape-select"
                 value={selectedShape}
-                onChange={(e) => setSelectedShape(e.target.value as "circle" | "square" | "triangle")}
+                onChange={(e) => setSelectedShape(e.target.value)}
+                disabled={guided && prompt !== null}
                 className="px-3 py-2 border border-input rounded-md bg-background"
               >
-                <option value="circle">Circle</option>
-                <option value="square">Square</option>
-                <option value="triangle">Triangle</option>
+                {taxonomy?.classes.map((shapeClass) => (
+                  <option key={shapeClass.name} value={shapeClass.name} title={shapeClass.description}>
+                    {shapeClass.displayName}
+                  </option>
+                ))}
               </select>
             </div>
             <div className="flex items-center gap-2">
@@ -209,32 +705,98 @@ export default function ShapeDrawingApp() {
               <select
                 id="quality-select"
                 value={selectedQuality}
-                onChange={(e) => setSelectedQuality(e.target.value as "perfect" | "medium" | "irregular")}
+                onChange={(e) => setSelectedQuality(e.target.value)}
+                disabled={guided && prompt !== null}
                 className="px-3 py-2 border border-input rounded-md bg-background"
               >
-                <option value="perfect">Perfect</option>
-                <option value="medium">Medium</option>
-                <option value="irregular">Irregular</option>
+                {taxonomy?.qualities.map((level) => (
+                  <option key={level.name} value={level.name} title={level.description}>
+                    {level.displayName}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
 
+          <div className="flex items-center gap-4 flex-wrap text-sm">
+            <div className="flex items-center gap-2">
+              <label htmlFor="brush-size" className="font-medium">
+                Brush:
+              </label>
+              <input
+                id="brush-size"
+                type="range"
+                min={1}
+                max={12}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+              />
+              <span className="w-8 text-muted-foreground">{brushSize}px</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="smoothing" className="font-medium">
+                Smoothing:
+              </label>
+              <input
+                id="smoothing"
+                type="range"
+                min={0}
+                max={0.9}
+                step={0.1}
+                value={smoothing}
+                onChange={(e) => setSmoothing(Number(e.target.value))}
+              />
+              <span className="w-8 text-muted-foreground">{Math.round(smoothing * 100)}%</span>
+            </div>
+          </div>
+
           <canvas
             ref={canvasRef}
             width={256}
             height={256}
-            onMouseDown={startDrawing}
-            onMouseMove={draw}
-            onMouseUp={stopDrawing}
-            onMouseLeave={stopDrawing}
-            onTouchStart={startDrawing}
-            onTouchMove={draw}
-            onTouchEnd={stopDrawing}
+            onPointerDown={startDrawing}
+            onPointerMove={draw}
+            onPointerUp={stopDrawing}
+            onPointerCancel={stopDrawing}
             className="border-2 border-border cursor-crosshair touch-none"
             style={{ backgroundColor: "white" }}
           />
 
+          {prediction && (
+            <p className="text-center text-sm text-muted-foreground" title="Guess of the baseline classifier">
+              Looks like{" "}
+              <span className="font-medium text-foreground">
+                {taxonomy?.classes.find((shapeClass) => shapeClass.name === prediction.label)?.displayName ??
+                  prediction.label}
+              </span>{" "}
+              ({Math.round(prediction.labelConfidence * 100)}%) ·{" "}
+              <span className="font-medium text-foreground">
+                {taxonomy?.qualities.find((level) => level.name === prediction.quality)?.displayName ??
+                  prediction.quality}
+              </span>{" "}
+              ({Math.round(prediction.qualityConfidence * 100)}%)
+            </p>
+          )}
+
           <div className="flex gap-3">
+            <Button
+              onClick={undo}
+              variant="outline"
+              className="bg-transparent"
+              disabled={strokes.length === 0}
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </Button>
+            <Button
+              onClick={redo}
+              variant="outline"
+              className="bg-transparent"
+              disabled={undone.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </Button>
             <Button onClick={clearCanvas} variant="outline" className="flex-1 bg-transparent">
               Clear
             </Button>
@@ -244,10 +806,42 @@ export default function ShapeDrawingApp() {
           </div>
 
           {submitStatus && (
-            <p className={`text-center text-sm ${submitStatus.includes("✓") ? "text-green-600" : "text-red-600"}`}>
+            <p
+              className={`text-center text-sm ${
+                submitStatus.includes("✓")
+                  ? "text-green-600"
+                  : submitStatus.includes("⏳")
+                    ? "text-yellow-700"
+                    : "text-red-600"
+              }`}
+            >
               {submitStatus}
             </p>
           )}
+          {queue.length > 0 && (
+            <div className="flex items-center gap-2 text-sm bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+              <span className="flex-1 text-yellow-900">
+                {pendingCount > 0 && `⏳ ${pendingCount} drawing${pendingCount === 1 ? "" : "s"} waiting to upload`}
+                {pendingCount > 0 && failedCount > 0 && " · "}
+                {failedCount > 0 && (
+                  <span title={queue.find((entry) => entry.status === "failed")?.lastError}>
+                    ✗ {failedCount} refused by the server
+                  </span>
+                )}
+              </span>
+              {pendingCount > 0 && (
+                <Button size="sm" variant="outline" onClick={() => flushQueue(true)}>
+                  Retry now
+                </Button>
+              )}
+              {failedCount > 0 && (
+                <Button size="sm" variant="ghost" onClick={discardFailed}>
+                  Discard refused
+                </Button>
+              )}
+            </div>
+          )}
+          {qualityWarning && <p className="text-center text-sm text-yellow-700">{qualityWarning}</p>}
         </div>
       </div>
     </div>
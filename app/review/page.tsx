@@ -0,0 +1,255 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import type { Taxonomy } from "@/lib/taxonomy"
+import type { Principal } from "@/lib/auth"
+import type { AgreementReport, ReviewConfig, ReviewItem } from "@/lib/reviews"
+import { apiFetch, describeApiError } from "@/lib/api-client"
+
+type Agreement = AgreementReport & { config: ReviewConfig }
+
+/**
+ * Landis & Koch's reading of a kappa value
+ */
+function describeKappa(kappa: number | null): string {
+  if (kappa === null) return "not enough votes yet"
+  if (kappa < 0) return "worse than chance"
+  if (kappa <= 0.2) return "slight"
+  if (kappa <= 0.4) return "fair"
+  if (kappa <= 0.6) return "moderate"
+  if (kappa <= 0.8) return "substantial"
+  return "almost perfect"
+}
+
+const formatShare = (share: number | null) => (share === null ? "—" : `${Math.round(share * 100)}%`)
+
+export default function ReviewPage() {
+  const [user, setUser] = useState<Principal | null>(null)
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ classes: [], qualities: [] })
+  const [item, setItem] = useState<ReviewItem | null>(null)
+  const [skipped, setSkipped] = useState<string[]>([])
+  const [agreement, setAgreement] = useState<Agreement | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isVoting, setIsVoting] = useState(false)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const [error, setError] = useState<string>("")
+
+  const fetchAgreement = useCallback(async () => {
+    try {
+      setAgreement(await apiFetch<Agreement>("/api/review/agreement"))
+    } catch (error) {
+      console.error("[v0] Error loading reviewer agreement:", error)
+    }
+  }, [])
+
+  const fetchNext = useCallback(async (skip: string[]) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (skip.length > 0) params.set("skip", skip.join(","))
+      const data = await apiFetch<{ item: ReviewItem | null }>(`/api/review?${params}`)
+      setItem(data.item)
+      setError("")
+    } catch (error) {
+      console.error("[v0] Error loading drawing to review:", error)
+      setError(describeApiError(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session")
+        const data = await response.json()
+        if (!data.user) {
+          window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+          return
+        }
+        setUser(data.user)
+        setTaxonomy(await apiFetch<Taxonomy>("/api/taxonomy"))
+        await Promise.all([fetchNext([]), fetchAgreement()])
+      } catch (error) {
+        console.error("[v0] Error loading review page:", error)
+        setError(describeApiError(error))
+        setIsLoading(false)
+      }
+    }
+    fetchSession()
+  }, [fetchNext, fetchAgreement])
+
+  const vote = async (quality: string) => {
+    if (!item) return
+    setIsVoting(true)
+    try {
+      await apiFetch("/api/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: item.id, quality }),
+      })
+      setReviewedCount((count) => count + 1)
+      await Promise.all([fetchNext(skipped), fetchAgreement()])
+    } catch (error) {
+      console.error("[v0] Error recording vote:", error)
+      setError(describeApiError(error))
+    } finally {
+      setIsVoting(false)
+    }
+  }
+
+  const skip = () => {
+    if (!item) return
+    const nextSkipped = [...skipped, item.id]
+    setSkipped(nextSkipped)
+    fetchNext(nextSkipped)
+  }
+
+  const displayLabel = (name: string) =>
+    taxonomy.classes.find((shapeClass) => shapeClass.name === name)?.displayName ?? name
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold">Quality Review</h1>
+          <div className="flex items-center gap-4">
+            {user && user.kind === "user" && (
+              <p className="text-sm text-muted-foreground">
+                Signed in as <span className="font-medium">{user.name}</span> ({user.role})
+              </p>
+            )}
+            <Link href="/gallery">
+              <Button variant="outline">Gallery</Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline">Back to Drawing</Button>
+            </Link>
+          </div>
+        </div>
+
+        <section className="bg-card rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Rate this Drawing</h2>
+            <p className="text-sm text-muted-foreground">{reviewedCount} rated this session</p>
+          </div>
+
+          {error && <p className="text-red-600 mb-4">✗ {error}</p>}
+
+          {isLoading && !item ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : !item ? (
+            <div className="space-y-2">
+              <p className="text-muted-foreground">Nothing left to review. Thanks for helping!</p>
+              {skipped.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSkipped([])
+                    fetchNext([])
+                  }}
+                >
+                  Revisit {skipped.length} skipped
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-col md:flex-row gap-8">
+              <div className="shrink-0">
+                <img
+                  src={item.imageUrl}
+                  alt="Drawing to review"
+                  width={256}
+                  height={256}
+                  className="border rounded bg-white"
+                />
+                <p className="text-sm text-muted-foreground mt-2">
+                  {item.votes} of {item.votesWanted} ratings so far
+                </p>
+              </div>
+              <div className="flex-1 space-y-3">
+                <p>
+                  This is meant to be a <span className="font-semibold">{displayLabel(item.label)}</span>. How well
+                  drawn is it?
+                </p>
+                {taxonomy.qualities.map((level) => (
+                  <Button
+                    key={level.name}
+                    variant="outline"
+                    className="w-full h-auto justify-start text-left py-3"
+                    disabled={isVoting || isLoading}
+                    onClick={() => vote(level.name)}
+                  >
+                    <div>
+                      <div className="font-medium">{level.displayName}</div>
+                      <div className="text-xs text-muted-foreground whitespace-normal">{level.description}</div>
+                    </div>
+                  </Button>
+                ))}
+                <Button variant="ghost" onClick={skip} disabled={isVoting || isLoading}>
+                  Skip
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {agreement && (
+          <section className="bg-card rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4">Reviewer Agreement</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+              <div>
+                <p className="text-muted-foreground">Votes</p>
+                <p className="text-2xl font-semibold">{agreement.totalVotes}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Drawings with a consensus</p>
+                <p className="text-2xl font-semibold">
+                  {agreement.consensusSamples} / {agreement.reviewedSamples}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Between reviewers (Fleiss&apos; κ)</p>
+                <p className="text-2xl font-semibold">{agreement.fleissKappa?.toFixed(2) ?? "—"}</p>
+                <p className="text-xs text-muted-foreground">{describeKappa(agreement.fleissKappa)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Self-grade vs consensus (Cohen&apos;s κ)</p>
+                <p className="text-2xl font-semibold">{agreement.selfReportKappa?.toFixed(2) ?? "—"}</p>
+                <p className="text-xs text-muted-foreground">{describeKappa(agreement.selfReportKappa)}</p>
+              </div>
+            </div>
+            {agreement.reviewers.length === 0 ? (
+              <p className="text-muted-foreground">No votes yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2 font-medium">Reviewer</th>
+                    <th className="p-2 font-medium text-right">Votes</th>
+                    <th className="p-2 font-medium text-right">Agrees with consensus</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {agreement.reviewers.map((entry) => (
+                    <tr key={entry.reviewer} className="border-b last:border-0">
+                      <td className="p-2 font-medium">{entry.reviewer}</td>
+                      <td className="p-2 text-right">{entry.votes}</td>
+                      <td className="p-2 text-right">{formatShare(entry.agreementWithConsensus)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-xs text-muted-foreground mt-4">
+              A drawing has a consensus once it has {agreement.config.minVotes} or more votes and one quality has
+              more votes than any other.
+            </p>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,372 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Button } from "@/components/ui/button"
+import type { Taxonomy } from "@/lib/taxonomy"
+import type { Principal } from "@/lib/auth"
+import type { DatasetStats } from "@/lib/stats"
+import type { ConfusionReport, TrainingReport, TrainingStatus } from "@/lib/classifier"
+import { apiFetch, describeApiError } from "@/lib/api-client"
+
+// One color per label, cycling if the taxonomy has more labels than colors
+const LABEL_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#0891b2", "#db2777", "#ca8a04", "#4b5563"]
+
+// Contributors shown in the chart; the rest are summed into "Others"
+const MAX_CONTRIBUTORS = 15
+
+// How often a running training job is polled
+const TRAINING_POLL_MS = 1000
+
+type Training = { status: TrainingStatus | null; report: TrainingReport | null }
+
+/**
+ * Confusion matrix with actual classes as rows and predictions as columns;
+ * the diagonal (correct predictions) is highlighted
+ */
+function ConfusionTable({
+  title,
+  confusion,
+  displayName,
+}: {
+  title: string
+  confusion: ConfusionReport
+  displayName: (name: string) => string
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <p className="font-medium mb-2">
+        {title}: {confusion.accuracy === null ? "no held-out samples" : `${Math.round(confusion.accuracy * 100)}% accuracy`}
+      </p>
+      <table className="text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="p-2 font-medium text-left text-muted-foreground">Actual \ Predicted</th>
+            {confusion.classes.map((name) => (
+              <th key={name} className="p-2 font-medium text-right">
+                {displayName(name)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {confusion.classes.map((actual, row) => (
+            <tr key={actual} className="border-b last:border-0">
+              <td className="p-2 font-medium">{displayName(actual)}</td>
+              {confusion.matrix[row].map((count, column) => (
+                <td key={column} className={`p-2 text-right ${row === column ? "bg-green-50 font-medium" : ""}`}>
+                  {count}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function StatsPage() {
+  const [user, setUser] = useState<Principal | null>(null)
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ classes: [], qualities: [] })
+  const [stats, setStats] = useState<DatasetStats | null>(null)
+  const [error, setError] = useState<string>("")
+  const [training, setTraining] = useState<Training>({ status: null, report: null })
+  const [trainingError, setTrainingError] = useState<string>("")
+
+  const fetchTraining = useCallback(async () => {
+    try {
+      setTraining(await apiFetch<Training>("/api/train"))
+    } catch (error) {
+      console.error("[v0] Error loading classifier status:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session")
+        const data = await response.json()
+        if (!data.user) {
+          window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+          return
+        }
+        setUser(data.user)
+        const [taxonomyData, statsData] = await Promise.all([
+          apiFetch<Taxonomy>("/api/taxonomy"),
+          apiFetch<DatasetStats>("/api/stats"),
+        ])
+        setTaxonomy(taxonomyData)
+        setStats(statsData)
+        await fetchTraining()
+      } catch (error) {
+        console.error("[v0] Error loading stats:", error)
+        setError(error instanceof Error ? error.message : "Unknown error")
+      }
+    }
+    fetchSession()
+  }, [fetchTraining])
+
+  // Follow a running training job until it finishes
+  const trainingRunning = training.status?.running ?? false
+  useEffect(() => {
+    if (!trainingRunning) return
+    const timer = setInterval(fetchTraining, TRAINING_POLL_MS)
+    return () => clearInterval(timer)
+  }, [trainingRunning, fetchTraining])
+
+  const startTraining = async () => {
+    setTrainingError("")
+    try {
+      const data = await apiFetch<{ status: TrainingStatus }>("/api/train", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      setTraining((prev) => ({ ...prev, status: data.status }))
+    } catch (error) {
+      console.error("[v0] Error starting training:", error)
+      setTrainingError(describeApiError(error))
+    }
+  }
+
+  const displayLabel = (name: string) =>
+    taxonomy.classes.find((shapeClass) => shapeClass.name === name)?.displayName ?? name
+  const displayQuality = (name: string) => taxonomy.qualities.find((level) => level.name === name)?.displayName ?? name
+
+  // Quality levels run best to worst, colored green through yellow to red
+  const qualityColor = (index: number) => {
+    const hue = taxonomy.qualities.length > 1 ? 120 - (120 * index) / (taxonomy.qualities.length - 1) : 120
+    return `hsl(${hue}, 65%, 45%)`
+  }
+  const labelColor = (index: number) => LABEL_COLORS[index % LABEL_COLORS.length]
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <p className="text-red-600">✗ Failed to load statistics: {error}</p>
+      </div>
+    )
+  }
+
+  if (!stats) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <p className="text-muted-foreground">Loading statistics...</p>
+      </div>
+    )
+  }
+
+  const labelChartData = taxonomy.classes.map((shapeClass) => ({
+    label: shapeClass.displayName,
+    ...stats.matrix[shapeClass.name],
+  }))
+  const timelineData = stats.timeline.map((day) => ({
+    date: day.date,
+    ...Object.fromEntries(taxonomy.classes.map((shapeClass) => [shapeClass.name, day.byLabel[shapeClass.name] ?? 0])),
+  }))
+  const namedContributors = stats.contributors.map((entry) => ({
+    name: entry.contributor ?? "Anonymous",
+    total: entry.total,
+  }))
+  const contributorData =
+    namedContributors.length > MAX_CONTRIBUTORS
+      ? [
+          ...namedContributors.slice(0, MAX_CONTRIBUTORS),
+          {
+            name: "Others",
+            total: namedContributors.slice(MAX_CONTRIBUTORS).reduce((sum, entry) => sum + entry.total, 0),
+          },
+        ]
+      : namedContributors
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold">Dataset Statistics</h1>
+          <div className="flex items-center gap-4">
+            {user && user.kind === "user" && (
+              <p className="text-sm text-muted-foreground">
+                Signed in as <span className="font-medium">{user.name}</span> ({user.role})
+              </p>
+            )}
+            <Link href="/gallery">
+              <Button variant="outline">Gallery</Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline">Back to Drawing</Button>
+            </Link>
+          </div>
+        </div>
+
+        {stats.warnings.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="font-medium text-yellow-900 mb-2">⚠ Balance warnings</p>
+            <ul className="text-sm text-yellow-900 list-disc pl-5 space-y-1">
+              {stats.warnings.map((warning, index) => (
+                <li key={index}>{warning.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Samples by Label and Quality ({stats.total} total)</h2>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2 font-medium">Label</th>
+                  {taxonomy.qualities.map((level) => (
+                    <th key={level.name} className="p-2 font-medium text-right">
+                      {level.displayName}
+                    </th>
+                  ))}
+                  <th className="p-2 font-medium text-right">Total</th>
+                  <th className="p-2 font-medium">Target</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.progress.map(({ label, count, target }) => (
+                  <tr key={label} className="border-b last:border-0">
+                    <td className="p-2 font-medium">{displayLabel(label)}</td>
+                    {taxonomy.qualities.map((level) => (
+                      <td key={level.name} className="p-2 text-right">
+                        {stats.matrix[label]?.[level.name] ?? 0}
+                      </td>
+                    ))}
+                    <td className="p-2 text-right font-medium">{count}</td>
+                    <td className="p-2">
+                      <div className="flex items-center gap-2" title={`${count} of ${target}`}>
+                        <div className="w-32 h-2 bg-muted rounded">
+                          <div
+                            className={`h-2 rounded ${count >= target ? "bg-green-600" : "bg-primary"}`}
+                            style={{ width: `${Math.min(100, target > 0 ? (count / target) * 100 : 100)}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-muted-foreground">{target}</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t font-medium">
+                  <td className="p-2">Total</td>
+                  {taxonomy.qualities.map((level) => (
+                    <td key={level.name} className="p-2 text-right">
+                      {stats.byQuality[level.name] ?? 0}
+                    </td>
+                  ))}
+                  <td className="p-2 text-right">{stats.total}</td>
+                  <td className="p-2" />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={labelChartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              {taxonomy.qualities.map((level, index) => (
+                <Bar key={level.name} dataKey={level.name} name={displayQuality(level.name)} stackId="quality" fill={qualityColor(index)} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </section>
+
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Submissions over Time</h2>
+          {timelineData.length === 0 ? (
+            <p className="text-muted-foreground">No submissions yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={timelineData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {taxonomy.classes.map((shapeClass, index) => (
+                  <Area
+                    key={shapeClass.name}
+                    type="monotone"
+                    dataKey={shapeClass.name}
+                    name={shapeClass.displayName}
+                    stackId="label"
+                    stroke={labelColor(index)}
+                    fill={labelColor(index)}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </section>
+
+        <section className="bg-card rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Submissions per Contributor</h2>
+          {contributorData.length === 0 ? (
+            <p className="text-muted-foreground">No submissions yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={Math.max(120, contributorData.length * 32)}>
+              <BarChart data={contributorData} layout="vertical" margin={{ left: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="name" width={120} />
+                <Tooltip />
+                <Bar dataKey="total" name="Samples" fill={LABEL_COLORS[0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </section>
+
+        <section className="bg-card rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Baseline Classifier</h2>
+            {user?.role === "curator" && (
+              <Button variant="outline" onClick={startTraining} disabled={trainingRunning}>
+                {trainingRunning
+                  ? `Training... ${training.status!.processed} / ${training.status!.total}`
+                  : training.report
+                    ? "Retrain"
+                    : "Train"}
+              </Button>
+            )}
+          </div>
+          {trainingError && <p className="text-red-600 mb-4">✗ {trainingError}</p>}
+          {training.status?.error && <p className="text-red-600 mb-4">✗ Last run failed: {training.status.error}</p>}
+          {!training.report ? (
+            <p className="text-muted-foreground">No model has been trained yet.</p>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Trained {new Date(training.report.trainedAt).toLocaleString()} on {training.report.trainSamples} samples
+                {training.report.synthetic ? "" : " (hand-drawn only)"}; evaluated on {training.report.testSamples}{" "}
+                held-out samples ({Math.round(training.report.testRatio * 100)}% of each label and quality, seed{" "}
+                {training.report.seed}).
+              </p>
+              <div className="grid md:grid-cols-2 gap-8">
+                <ConfusionTable title="Label" confusion={training.report.label} displayName={displayLabel} />
+                <ConfusionTable title="Quality" confusion={training.report.quality} displayName={displayQuality} />
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import type { ErrorBody, ErrorCode, ValidationIssue } from "@/lib/errors"
+
+/**
+ * An error response from one of the app's API routes, as seen by the pages
+ */
+export class ApiRequestError extends Error {
+  readonly status: number
+  readonly code: ErrorCode
+  readonly issues: ValidationIssue[]
+  readonly details?: unknown
+
+  constructor(status: number, body: Partial<ErrorBody>) {
+    super(body.error || `Request failed with status ${status}`)
+    this.name = "ApiRequestError"
+    this.status = status
+    this.code = body.code ?? "internal_error"
+    this.issues = body.issues ?? []
+    this.details = body.details
+  }
+}
+
+/**
+ * Fetches a JSON API route. Error responses are thrown as ApiRequestError,
+ * except 401, which sends the browser to the login page.
+ */
+export async function apiFetch<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, init)
+  const body = await response.json().catch(() => ({}))
+
+  if (response.status === 401) {
+    window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+  }
+  if (!response.ok) {
+    throw new ApiRequestError(response.status, body)
+  }
+  return body as T
+}
+
+/**
+ * Short explanation of a failed request for showing to the user
+ */
+export function describeApiError(error: unknown): string {
+  if (!(error instanceof ApiRequestError)) {
+    return error instanceof Error ? error.message : "Unknown error"
+  }
+  switch (error.code) {
+    case "payload_too_large":
+      return `Too large: ${error.message}`
+    case "forbidden":
+      return "You don't have permission to do that"
+    default:
+      return error.message
+  }
+}
+
+/**
+ * Whether a failed request is worth sending again later: the network was
+ * down, the server timed out or was overloaded, or it hit an internal error.
+ * Anything else (a rejected drawing, a missing permission) fails the same
+ * way every time.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ApiRequestError)) return true
+  return error.status === 401 || error.status === 408 || error.status === 429 || error.status >= 500
+}
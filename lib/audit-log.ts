@@ -0,0 +1,80 @@
+import fs from "fs"
+import path from "path"
+
+export const AUDIT_ACTIONS = ["create", "relabel", "delete", "restore", "purge"] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export type AuditEntry = {
+  id: string
+  timestamp: number
+  action: AuditAction
+  actor: string // who performed the action ("anonymous" when unknown)
+  filePath: string // sample path after the action (before it, for delete and purge)
+  label: string
+  quality: string
+  previous?: { filePath: string; label: string; quality: string } // relabel only
+  trashId?: string // delete, restore and purge
+}
+
+export type AuditQuery = {
+  action?: AuditAction
+  actor?: string
+  filePath?: string // matches either the current or the previous path
+  since?: number
+  until?: number
+  limit?: number
+}
+
+const AUDIT_PATH = path.join(process.cwd(), "data", "audit.jsonl")
+
+/**
+ * Appends an entry to the audit log (data/audit.jsonl)
+ */
+export function recordAudit(entry: Omit<AuditEntry, "id" | "timestamp" | "actor"> & { actor?: string }): AuditEntry {
+  const timestamp = Date.now()
+  const full: AuditEntry = {
+    id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    ...entry,
+    actor: entry.actor || "anonymous",
+  }
+  try {
+    fs.mkdirSync(path.dirname(AUDIT_PATH), { recursive: true })
+    fs.appendFileSync(AUDIT_PATH, JSON.stringify(full) + "\n")
+  } catch (error) {
+    // The action itself already happened; losing the log line must not undo it
+    console.error("[v0] Error writing audit log:", error)
+  }
+  return full
+}
+
+/**
+ * Reads audit entries matching a query, newest first
+ */
+export function queryAudit(query: AuditQuery = {}): AuditEntry[] {
+  if (!fs.existsSync(AUDIT_PATH)) return []
+
+  const entries: AuditEntry[] = []
+  fs.readFileSync(AUDIT_PATH, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .forEach((line) => {
+      try {
+        entries.push(JSON.parse(line))
+      } catch {
+        console.error("[v0] Skipping corrupt audit line")
+      }
+    })
+
+  const matches = entries.filter(
+    (entry) =>
+      (!query.action || entry.action === query.action) &&
+      (!query.actor || entry.actor === query.actor) &&
+      (!query.filePath || entry.filePath === query.filePath || entry.previous?.filePath === query.filePath) &&
+      (query.since === undefined || entry.timestamp >= query.since) &&
+      (query.until === undefined || entry.timestamp <= query.until),
+  )
+  matches.reverse()
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches
+}
@@ -0,0 +1,96 @@
+import fs from "fs"
+import path from "path"
+import { describe, expect, it, vi } from "vitest"
+import {
+  getAugmentationStatus,
+  getAugmentedSamples,
+  readAugmentedImage,
+  startAugmentation,
+  type AugmentedSample,
+} from "@/lib/augmentation"
+import { getObjectStore } from "@/lib/object-store"
+import { encodeInk, renderStrokes } from "@/lib/raster"
+import { addImage, deleteImage, type ImageData } from "@/lib/storage"
+import type { Stroke } from "@/lib/strokes"
+
+function circleStrokes(radius: number): Stroke[] {
+  return [
+    Array.from({ length: 33 }, (_, i) => ({
+      x: 128 + radius * Math.cos((i / 32) * 2 * Math.PI),
+      y: 128 + radius * Math.sin((i / 32) * 2 * Math.PI),
+      t: i * 10,
+    })),
+  ]
+}
+
+async function addCircle(radius: number, withStrokes: boolean): Promise<ImageData> {
+  const strokes = circleStrokes(radius)
+  const png = encodeInk(renderStrokes(strokes, 6, 256))
+  return addImage("circle", "perfect", `data:image/png;base64,${png.toString("base64")}`, {
+    strokes: withStrokes ? strokes : undefined,
+  })
+}
+
+async function runAugmentation() {
+  await startAugmentation()
+  await vi.waitFor(() => expect(getAugmentationStatus()?.running).toBe(false), { timeout: 20000 })
+  return getAugmentationStatus()!
+}
+
+function variantsOf(samples: AugmentedSample[], source: ImageData): AugmentedSample[] {
+  return samples.filter((sample) => sample.source === source.filePath).sort((a, b) => a.variant - b.variant)
+}
+
+function setVariantOverrides(variants: Record<string, Record<string, number>>) {
+  const configPath = path.join(process.cwd(), "config", "augmentation.json")
+  const config = JSON.parse(fs.readFileSync(configPath, "utf-8"))
+  fs.writeFileSync(configPath, JSON.stringify({ ...config, variants }))
+}
+
+describe("startAugmentation", () => {
+  it("derives seeded variants and regenerates the same ones", { timeout: 30000 }, async () => {
+    const drawn = await addCircle(60, true)
+    const scanned = await addCircle(80, false)
+
+    const first = await runAugmentation()
+    expect(first).toMatchObject({ total: 2, processed: 2, generated: 4, failed: 0 })
+    const samples = await getAugmentedSamples()
+    const [drawn0, drawn1] = variantsOf(samples, drawn)
+    const [scanned0, scanned1] = variantsOf(samples, scanned)
+
+    expect(drawn0.filePath).toBe(drawn.filePath.replace("/shapes/", "/augmented/").replace(".png", "_aug0.png"))
+    expect(drawn0.strokesPath).toBeDefined()
+    expect(scanned0.strokesPath).toBeUndefined()
+    expect(new Set([drawn0.seed, drawn1.seed, scanned0.seed, scanned1.seed]).size).toBe(4)
+    expect(drawn0.transforms).not.toEqual(drawn1.transforms)
+
+    // Nothing is missing, so a second run does no work
+    expect(await runAugmentation()).toMatchObject({ total: 0, generated: 0, removed: 0 })
+
+    // A variant that disappears comes back identical
+    const png = await readAugmentedImage(drawn1)
+    const key = drawn1.filePath.slice(1)
+    await getObjectStore().delete(key.replace(/\.png$/, ".json"))
+    await getObjectStore().delete(key)
+    expect(await runAugmentation()).toMatchObject({ total: 1, generated: 1 })
+    const [, regenerated] = variantsOf(await getAugmentedSamples(), drawn)
+    expect(regenerated.seed).toBe(drawn1.seed)
+    expect(regenerated.transforms).toEqual(drawn1.transforms)
+    expect(await readAugmentedImage(regenerated)).toEqual(png)
+  })
+
+  it("removes variants of deleted sources and beyond the configured count", { timeout: 30000 }, async () => {
+    await runAugmentation()
+    const before = await getAugmentedSamples()
+    const [kept, deleted] = [...new Set(before.map((sample) => sample.source))]
+    const deletedSource = before.find((sample) => sample.source === deleted)!
+    await deleteImage(path.posix.basename(deleted), deletedSource.label, deletedSource.quality)
+    setVariantOverrides({ circle: { perfect: 1 } })
+
+    const status = await runAugmentation()
+    // Both of the deleted source's variants, and the second variant of the other
+    expect(status).toMatchObject({ removed: 3, generated: 0 })
+    const after = await getAugmentedSamples()
+    expect(after.map((sample) => [sample.source, sample.variant])).toEqual([[kept, 0]])
+  })
+})
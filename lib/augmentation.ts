@@ -0,0 +1,551 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { getAllImages, getImageStrokes, readImageFile, type ImageData } from "@/lib/storage"
+import { getObjectStore } from "@/lib/object-store"
+import { decodeInk, encodeInk, renderStrokes, type Raster } from "@/lib/raster"
+import type { Stroke } from "@/lib/strokes"
+import { createRandom } from "@/lib/dataset"
+import { NotFoundError } from "@/lib/errors"
+
+/**
+ * How many variants to derive from each sample and how far each transform
+ * may go, from config/augmentation.json. A range of 0 turns a transform off.
+ */
+export type AugmentationConfig = {
+  defaultVariants: number // variants per sample for every label/quality combination
+  variants: Record<string, Record<string, number>> // label -> quality -> overrides of defaultVariants; 0 skips the combination
+  rotation: { maxDegrees: number }
+  scale: { min: number; max: number }
+  translation: { maxPixels: number }
+  elastic: { maxPixels: number; smoothness: number } // largest displacement, and the scale in pixels over which it varies
+  strokeWidth: { min: number; max: number } // pixels added to (negative: taken from) each side of the line
+  strokeJitter: { maxPixels: number } // wobble added to recorded strokes; samples without strokes skip it
+}
+
+/**
+ * The transform parameters one variant was drawn with
+ */
+export type AppliedTransforms = {
+  rotation: number // degrees, clockwise
+  scale: number
+  translateX: number
+  translateY: number
+  elastic: number // largest displacement in pixels
+  strokeWidth: number
+  strokeJitter?: number // only for variants redrawn from strokes
+}
+
+/**
+ * A derived sample under augmented/ in the store, linked to the sample it came from
+ */
+export type AugmentedSample = {
+  filename: string
+  filePath: string // /augmented/{folder}/{quality}/{source name}_aug{n}.png
+  source: string // filePath of the original under shapes/ in the store
+  label: string
+  quality: string
+  variant: number // index among the source's variants
+  seed: number
+  transforms: AppliedTransforms
+  timestamp: number // when the variant was generated
+  strokesPath?: string // set when the variant was redrawn from strokes, which are kept in its sidecar
+}
+
+/**
+ * Progress of the most recent augmentation run
+ */
+export type AugmentationStatus = {
+  running: boolean
+  total: number // samples that were missing variants when the run started
+  processed: number
+  generated: number
+  removed: number // variants whose source was deleted, moved or no longer wants that many
+  failed: number // sources that are not readable PNGs
+  startedAt: number
+  finishedAt?: number
+}
+
+/**
+ * Contents of the JSON sidecar written next to each variant
+ */
+type AugmentedSidecar = Omit<AugmentedSample, "filename" | "filePath" | "strokesPath"> & { strokes?: Stroke[] }
+
+const augmentationConfigSchema = z.object({
+  defaultVariants: z.number().int().min(0).max(20).default(2),
+  variants: z.record(z.record(z.number().int().min(0).max(20))).default({}),
+  rotation: z.object({ maxDegrees: z.number().min(0).max(180) }).default({ maxDegrees: 12 }),
+  scale: z
+    .object({ min: z.number().positive(), max: z.number().positive() })
+    .refine((range) => range.min <= range.max, "scale.min must not exceed scale.max")
+    .default({ min: 0.85, max: 1.1 }),
+  translation: z.object({ maxPixels: z.number().min(0).max(128) }).default({ maxPixels: 16 }),
+  elastic: z
+    .object({ maxPixels: z.number().min(0).max(32), smoothness: z.number().min(1).max(128) })
+    .default({ maxPixels: 4, smoothness: 24 }),
+  strokeWidth: z
+    .object({ min: z.number().min(-4), max: z.number().max(8) })
+    .refine((range) => range.min <= range.max, "strokeWidth.min must not exceed strokeWidth.max")
+    .default({ min: -0.5, max: 1.5 }),
+  strokeJitter: z.object({ maxPixels: z.number().min(0).max(16) }).default({ maxPixels: 1.5 }),
+})
+
+const DEFAULT_CONFIG: AugmentationConfig = augmentationConfigSchema.parse({})
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "augmentation.json")
+
+// Sources augmented per tick of the job, between which requests get served
+const BATCH_SIZE = 10
+
+// The displacement field is computed on a coarser grid and interpolated
+const FIELD_STEP = 4
+
+declare global {
+  var augmentationJob: AugmentationStatus | undefined
+}
+
+export function getAugmentationConfig(): AugmentationConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return augmentationConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading augmentation config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+export function getVariantCount(config: AugmentationConfig, label: string, quality: string): number {
+  return config.variants[label]?.[quality] ?? config.defaultVariants
+}
+
+/**
+ * Where a source's n-th variant is stored, mirroring the shapes/ tree of the store:
+ * /shapes/circles/perfect/circle_123.png -> /augmented/circles/perfect/circle_123_aug0.png
+ */
+function getVariantPath(sourcePath: string, variant: number): string {
+  return sourcePath.replace(/^\/shapes\//, "/augmented/").replace(/\.(png|jpe?g)$/i, `_aug${variant}.png`)
+}
+
+/**
+ * Converts a variant's path (/augmented/circles/perfect/circle_123_aug0.png) to its key in the store
+ */
+function toObjectKey(filePath: string): string {
+  return filePath.replace(/^\//, "")
+}
+
+function getSidecarKey(imageKey: string): string {
+  return imageKey.replace(/\.png$/i, ".json")
+}
+
+/**
+ * Number of variants in the store, counted from the listing without reading any sidecar
+ */
+export async function countAugmentedSamples(): Promise<number> {
+  const objects = await getObjectStore().list("augmented/")
+  return objects.filter((object) => object.key.endsWith(".json")).length
+}
+
+/**
+ * Every variant under augmented/ in the store, read from the sidecars
+ */
+export async function getAugmentedSamples(): Promise<AugmentedSample[]> {
+  const store = getObjectStore()
+  const samples: AugmentedSample[] = []
+  for (const object of await store.list("augmented/")) {
+    if (!object.key.endsWith(".json")) continue
+    try {
+      const stored = await store.get(object.key)
+      if (!stored) continue // removed since the listing
+      const { strokes, ...sidecar } = JSON.parse(stored.data.toString("utf-8")) as AugmentedSidecar
+      const filePath = `/${object.key}`
+      const sample: AugmentedSample = {
+        ...sidecar,
+        filename: path.posix.basename(filePath).replace(/\.json$/, ".png"),
+        filePath: filePath.replace(/\.json$/, ".png"),
+      }
+      if (strokes && strokes.length > 0) {
+        sample.strokesPath = filePath
+      }
+      samples.push(sample)
+    } catch (error) {
+      console.error("[v0] Error reading augmentation sidecar:", object.key, error)
+    }
+  }
+  return samples
+}
+
+/**
+ * Reads the PNG of a variant
+ * @throws NotFoundError if there is no such variant
+ */
+export async function readAugmentedImage(sample: AugmentedSample): Promise<Buffer> {
+  const stored = await getObjectStore().get(toObjectKey(sample.filePath))
+  if (!stored) {
+    throw new NotFoundError(`Augmented image not found: ${sample.filePath}`)
+  }
+  return stored.data
+}
+
+/**
+ * Loads the strokes a variant was redrawn from, if it was
+ */
+export async function getAugmentedStrokes(sample: AugmentedSample): Promise<Stroke[] | undefined> {
+  if (!sample.strokesPath) return undefined
+  const stored = await getObjectStore().get(getSidecarKey(toObjectKey(sample.filePath)))
+  return stored ? (JSON.parse(stored.data.toString("utf-8")) as AugmentedSidecar).strokes : undefined
+}
+
+async function deleteVariant(sample: AugmentedSample) {
+  const store = getObjectStore()
+  const key = toObjectKey(sample.filePath)
+  // The sidecar goes first, so a half-deleted variant is no longer listed
+  await store.delete(getSidecarKey(key))
+  await store.delete(key)
+}
+
+/**
+ * Seed for a variant, so the same source and index always give the same variant
+ */
+function getVariantSeed(sourcePath: string, variant: number): number {
+  return crypto.createHash("sha256").update(`${sourcePath}#${variant}`).digest().readUInt32BE(0)
+}
+
+type Affine = { forward: (x: number, y: number) => [number, number]; inverse: (x: number, y: number) => [number, number] }
+
+/**
+ * Rotation and scaling about the canvas center, then translation
+ */
+function createAffine(size: number, degrees: number, scale: number, translateX: number, translateY: number): Affine {
+  const center = size / 2
+  const cos = Math.cos((degrees * Math.PI) / 180)
+  const sin = Math.sin((degrees * Math.PI) / 180)
+  return {
+    forward: (x, y) => {
+      const dx = x - center
+      const dy = y - center
+      return [scale * (cos * dx - sin * dy) + center + translateX, scale * (sin * dx + cos * dy) + center + translateY]
+    },
+    inverse: (x, y) => {
+      const dx = x - center - translateX
+      const dy = y - center - translateY
+      return [(cos * dx + sin * dy) / scale + center, (-sin * dx + cos * dy) / scale + center]
+    },
+  }
+}
+
+type DisplacementField = { columns: number; dx: Float32Array; dy: Float32Array }
+
+/**
+ * Smooth random displacement: white noise blurred with a Gaussian of
+ * `smoothness` pixels, scaled so the largest shift is `maxPixels`
+ */
+function createDisplacementField(size: number, random: () => number, maxPixels: number, smoothness: number): DisplacementField {
+  const columns = Math.ceil(size / FIELD_STEP) + 1
+  const sigma = smoothness / FIELD_STEP
+  const radius = Math.ceil(3 * sigma)
+  const kernel = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)))
+
+  const blur = (values: Float32Array): Float32Array => {
+    const pass = (input: Float32Array, horizontal: boolean) => {
+      const output = new Float32Array(input.length)
+      for (let y = 0; y < columns; y++) {
+        for (let x = 0; x < columns; x++) {
+          let sum = 0
+          let weight = 0
+          for (let k = -radius; k <= radius; k++) {
+            const sx = horizontal ? x + k : x
+            const sy = horizontal ? y : y + k
+            if (sx < 0 || sy < 0 || sx >= columns || sy >= columns) continue
+            sum += input[sy * columns + sx] * kernel[k + radius]
+            weight += kernel[k + radius]
+          }
+          output[y * columns + x] = sum / weight
+        }
+      }
+      return output
+    }
+    return pass(pass(values, true), false)
+  }
+
+  const noise = () => Float32Array.from({ length: columns * columns }, () => random() * 2 - 1)
+  const dx = blur(noise())
+  const dy = blur(noise())
+  let largest = 0
+  for (let i = 0; i < dx.length; i++) {
+    largest = Math.max(largest, Math.hypot(dx[i], dy[i]))
+  }
+  const factor = largest > 0 ? maxPixels / largest : 0
+  for (let i = 0; i < dx.length; i++) {
+    dx[i] *= factor
+    dy[i] *= factor
+  }
+  return { columns, dx, dy }
+}
+
+function displacementAt(field: DisplacementField, x: number, y: number): [number, number] {
+  const gx = Math.min(Math.max(x / FIELD_STEP, 0), field.columns - 1)
+  const gy = Math.min(Math.max(y / FIELD_STEP, 0), field.columns - 1)
+  const x0 = Math.min(Math.floor(gx), field.columns - 2)
+  const y0 = Math.min(Math.floor(gy), field.columns - 2)
+  const fx = gx - x0
+  const fy = gy - y0
+  const at = (values: Float32Array) => {
+    const i = y0 * field.columns + x0
+    const top = values[i] * (1 - fx) + values[i + 1] * fx
+    const bottom = values[i + field.columns] * (1 - fx) + values[i + field.columns + 1] * fx
+    return top * (1 - fy) + bottom * fy
+  }
+  return [at(field.dx), at(field.dy)]
+}
+
+/**
+ * Ink at a point, interpolated between pixel centers; paper outside the raster
+ */
+function sampleInk(raster: Raster, x: number, y: number): number {
+  const fx = x - 0.5
+  const fy = y - 0.5
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const at = (px: number, py: number) =>
+    px < 0 || py < 0 || px >= raster.width || py >= raster.height ? 0 : raster.data[py * raster.width + px]
+  const tx = fx - x0
+  const ty = fy - y0
+  const top = at(x0, y0) * (1 - tx) + at(x0 + 1, y0) * tx
+  const bottom = at(x0, y0 + 1) * (1 - tx) + at(x0 + 1, y0 + 1) * tx
+  return top * (1 - ty) + bottom * ty
+}
+
+/**
+ * Thickens (radius > 0) or thins (radius < 0) the ink with a grayscale
+ * dilation or erosion over a disk
+ */
+function changeStrokeWidth(raster: Raster, radius: number): Raster {
+  const r = Math.abs(radius)
+  if (r === 0) return raster
+  const dilate = radius > 0
+  const data = new Uint8Array(raster.data.length)
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      let value = dilate ? 0 : 255
+      for (let ky = -r; ky <= r; ky++) {
+        for (let kx = -r; kx <= r; kx++) {
+          if (kx * kx + ky * ky > r * r) continue
+          const sx = x + kx
+          const sy = y + ky
+          const ink = sx < 0 || sy < 0 || sx >= raster.width || sy >= raster.height ? 0 : raster.data[sy * raster.width + sx]
+          value = dilate ? Math.max(value, ink) : Math.min(value, ink)
+        }
+      }
+      data[y * raster.width + x] = value
+    }
+  }
+  return { width: raster.width, height: raster.height, data }
+}
+
+/**
+ * Average line width of a drawing: its ink area over the length of its strokes
+ */
+function estimateLineWidth(raster: Raster, strokes: Stroke[]): number {
+  let ink = 0
+  raster.data.forEach((value) => (ink += value / 255))
+  let length = 0
+  strokes.forEach((stroke) => {
+    for (let i = 1; i < stroke.length; i++) {
+      length += Math.hypot(stroke[i].x - stroke[i - 1].x, stroke[i].y - stroke[i - 1].y)
+    }
+  })
+  return length > 0 ? Math.min(20, Math.max(1, ink / length)) : 3
+}
+
+/**
+ * Small random offsets along each stroke, smoothed so lines wobble rather than fray
+ */
+function jitterStrokes(strokes: Stroke[], random: () => number, maxPixels: number): Stroke[] {
+  const smooth = (values: number[]) =>
+    values.map((_, i) => (values[Math.max(0, i - 1)] + values[i] + values[Math.min(values.length - 1, i + 1)]) / 3)
+  return strokes.map((stroke) => {
+    const offsetsX = smooth(smooth(stroke.map(() => (random() * 2 - 1) * maxPixels)))
+    const offsetsY = smooth(smooth(stroke.map(() => (random() * 2 - 1) * maxPixels)))
+    return stroke.map((point, i) => ({ ...point, x: point.x + offsetsX[i], y: point.y + offsetsY[i] }))
+  })
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Draws one variant of a sample. Samples with strokes are redrawn from the
+ * transformed strokes, so the variant keeps a matching trajectory; the
+ * others are resampled from their pixels.
+ */
+function renderVariant(
+  raster: Raster,
+  strokes: Stroke[] | undefined,
+  seed: number,
+  config: AugmentationConfig,
+): { png: Buffer; strokes?: Stroke[]; transforms: AppliedTransforms } {
+  const random = createRandom(seed)
+  const between = (min: number, max: number) => min + random() * (max - min)
+  const size = raster.width
+
+  const transforms: AppliedTransforms = {
+    rotation: round2(between(-config.rotation.maxDegrees, config.rotation.maxDegrees)),
+    scale: round2(between(config.scale.min, config.scale.max)),
+    translateX: round2(between(-config.translation.maxPixels, config.translation.maxPixels)),
+    translateY: round2(between(-config.translation.maxPixels, config.translation.maxPixels)),
+    elastic: config.elastic.maxPixels,
+    strokeWidth: round2(between(config.strokeWidth.min, config.strokeWidth.max)),
+  }
+  const affine = createAffine(size, transforms.rotation, transforms.scale, transforms.translateX, transforms.translateY)
+  const field =
+    config.elastic.maxPixels > 0
+      ? createDisplacementField(size, random, config.elastic.maxPixels, config.elastic.smoothness)
+      : undefined
+
+  if (strokes && strokes.some((stroke) => stroke.length > 0)) {
+    const lineWidth = Math.max(1, estimateLineWidth(raster, strokes) + 2 * transforms.strokeWidth)
+    let moved = strokes.map((stroke) =>
+      stroke.map((point) => {
+        const [dx, dy] = field ? displacementAt(field, point.x, point.y) : [0, 0]
+        const [x, y] = affine.forward(point.x + dx, point.y + dy)
+        return { ...point, x, y }
+      }),
+    )
+    if (config.strokeJitter.maxPixels > 0) {
+      moved = jitterStrokes(moved, random, config.strokeJitter.maxPixels)
+      transforms.strokeJitter = config.strokeJitter.maxPixels
+    }
+    moved = moved.map((stroke) =>
+      stroke.map((point) => ({
+        ...point,
+        x: round2(Math.min(size, Math.max(0, point.x))),
+        y: round2(Math.min(size, Math.max(0, point.y))),
+      })),
+    )
+    return { png: encodeInk(renderStrokes(moved, lineWidth, size)), strokes: moved, transforms }
+  }
+
+  // Each output pixel looks up where it came from: undo the affine transform, then the displacement
+  const warped = new Uint8Array(raster.data.length)
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      const [qx, qy] = affine.inverse(x + 0.5, y + 0.5)
+      const [dx, dy] = field ? displacementAt(field, qx, qy) : [0, 0]
+      warped[y * raster.width + x] = Math.round(sampleInk(raster, qx - dx, qy - dy))
+    }
+  }
+  const resized = changeStrokeWidth({ width: raster.width, height: raster.height, data: warped }, Math.round(transforms.strokeWidth))
+  return { png: encodeInk(resized), transforms }
+}
+
+/**
+ * Writes the variants a source is missing
+ * @returns How many were written
+ */
+async function augmentSource(source: ImageData, missing: number[], config: AugmentationConfig): Promise<number> {
+  const raster = decodeInk(await readImageFile(source))
+  const strokes = await getImageStrokes(source)
+  const store = getObjectStore()
+  for (const variant of missing) {
+    const seed = getVariantSeed(source.filePath, variant)
+    const rendered = renderVariant(raster, strokes, seed, config)
+    const key = toObjectKey(getVariantPath(source.filePath, variant))
+    const sidecar: AugmentedSidecar = {
+      source: source.filePath,
+      label: source.label,
+      quality: source.quality,
+      variant,
+      seed,
+      transforms: rendered.transforms,
+      timestamp: Date.now(),
+      strokes: rendered.strokes,
+    }
+    // The sidecar goes last, since variants are listed by their sidecars
+    await store.put(key, rendered.png)
+    await store.put(getSidecarKey(key), Buffer.from(JSON.stringify(sidecar)))
+  }
+  return missing.length
+}
+
+export function getAugmentationStatus(): AugmentationStatus | undefined {
+  return globalThis.augmentationJob
+}
+
+/**
+ * Brings the augmented/ variants in line with the samples and the config:
+ * removes variants whose source is gone (deleted or relabeled, which moves
+ * it) or beyond the configured count, then generates missing variants in
+ * small batches on timers. Does nothing if a run is already in progress.
+ * @returns The run's status, which keeps updating as it runs
+ */
+export async function startAugmentation(): Promise<AugmentationStatus> {
+  if (globalThis.augmentationJob?.running) return globalThis.augmentationJob
+
+  // Claimed before reading the store, so a second call in the meantime returns this run
+  const status: AugmentationStatus = {
+    running: true,
+    total: 0,
+    processed: 0,
+    generated: 0,
+    removed: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  }
+  globalThis.augmentationJob = status
+
+  const config = getAugmentationConfig()
+  const sources = getAllImages().filter((image) => /\.png$/i.test(image.filename))
+  const sourcesByPath = new Map(sources.map((image) => [image.filePath, image]))
+
+  const existing = new Set<string>()
+  try {
+    for (const sample of await getAugmentedSamples()) {
+      const source = sourcesByPath.get(sample.source)
+      if (!source || sample.variant >= getVariantCount(config, source.label, source.quality)) {
+        await deleteVariant(sample)
+        status.removed++
+      } else {
+        existing.add(sample.filePath)
+      }
+    }
+  } catch (error) {
+    status.running = false
+    status.finishedAt = Date.now()
+    throw error
+  }
+
+  const pending = sources
+    .map((source) => ({
+      source,
+      missing: Array.from({ length: getVariantCount(config, source.label, source.quality) }, (_, i) => i).filter(
+        (variant) => !existing.has(getVariantPath(source.filePath, variant)),
+      ),
+    }))
+    .filter(({ missing }) => missing.length > 0)
+
+  status.total = pending.length
+  console.log(`[v0] Augmenting ${pending.length} samples, removed ${status.removed} stale variants`)
+
+  const runBatch = async () => {
+    for (const { source, missing } of pending.splice(0, BATCH_SIZE)) {
+      try {
+        status.generated += await augmentSource(source, missing, config)
+      } catch (error) {
+        console.error("[v0] Error augmenting sample:", source.filePath, error)
+        status.failed++
+      }
+      status.processed++
+    }
+
+    if (pending.length > 0) {
+      setTimeout(runBatch, 0).unref()
+    } else {
+      status.running = false
+      status.finishedAt = Date.now()
+      console.log(`[v0] Augmentation done: ${status.generated} generated, ${status.failed} failed`)
+    }
+  }
+  setTimeout(runBatch, 0).unref()
+  return status
+}
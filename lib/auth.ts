@@ -0,0 +1,324 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { ConflictError, ForbiddenError, UnauthorizedError, ValidationError, errorResponse } from "@/lib/errors"
+
+/**
+ * Contributors can submit drawings and browse the gallery; curators can also
+ * delete, relabel, export and administer the dataset
+ */
+export const ROLES = ["contributor", "curator"] as const
+
+export type Role = (typeof ROLES)[number]
+
+/**
+ * Who is making a request: a logged-in user, a script using an API key, or
+ * an anonymous visitor (only when config/auth.json grants anonymous access)
+ */
+export type Principal = {
+  kind: "user" | "apiKey" | "anonymous"
+  name: string // username, "key:<name>" or "anonymous"
+  role: Role
+}
+
+export type AuthConfig = {
+  anonymousRole: Role | null // role granted without logging in; null requires login for everything
+  sessionTtlHours: number
+}
+
+type StoredUser = {
+  username: string
+  role: Role
+  passwordHash: string // scrypt, "salt:hash" in hex
+  createdAt: number
+}
+
+type StoredApiKey = {
+  id: string
+  name: string
+  role: Role
+  keyHash: string // sha256 of the key, in hex
+  prefix: string // first characters of the key, to recognize it in listings
+  createdAt: number
+}
+
+/**
+ * Accounts and API keys, kept out of the repository in data/auth.json
+ */
+type AuthStore = {
+  secret: string // signs session cookies unless AUTH_SECRET is set
+  users: StoredUser[]
+  apiKeys: StoredApiKey[]
+}
+
+export type UserInfo = Omit<StoredUser, "passwordHash">
+export type ApiKeyInfo = Omit<StoredApiKey, "keyHash">
+
+export const SESSION_COOKIE = "shape_session"
+
+const authConfigSchema = z.object({
+  anonymousRole: z.enum(ROLES).nullable().default(null),
+  sessionTtlHours: z.number().positive().default(168),
+})
+
+const DEFAULT_CONFIG: AuthConfig = authConfigSchema.parse({})
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "auth.json")
+const STORE_PATH = path.join(process.cwd(), "data", "auth.json")
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{1,32}$/
+
+declare global {
+  var authStore: AuthStore | undefined
+}
+
+export function getAuthConfig(): AuthConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return authConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading auth config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+function saveStore(store: AuthStore) {
+  fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true })
+  const tmpPath = `${STORE_PATH}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2), { mode: 0o600 })
+  fs.renameSync(tmpPath, STORE_PATH)
+  globalThis.authStore = store
+}
+
+/**
+ * Loads data/auth.json, creating it on first use. When no curator exists and
+ * ADMIN_PASSWORD is set, a curator named ADMIN_USERNAME (default "admin") is
+ * created so there is a way in.
+ */
+function getStore(): AuthStore {
+  if (!globalThis.authStore) {
+    let store: AuthStore
+    if (fs.existsSync(STORE_PATH)) {
+      store = JSON.parse(fs.readFileSync(STORE_PATH, "utf-8"))
+    } else {
+      store = { secret: crypto.randomBytes(32).toString("hex"), users: [], apiKeys: [] }
+      saveStore(store)
+    }
+    globalThis.authStore = store
+
+    if (!store.users.some((user) => user.role === "curator")) {
+      if (process.env.ADMIN_PASSWORD) {
+        createUser(process.env.ADMIN_USERNAME || "admin", process.env.ADMIN_PASSWORD, "curator")
+      } else {
+        console.warn("[v0] No curator account exists. Set ADMIN_PASSWORD to create one.")
+      }
+    }
+  }
+  return globalThis.authStore!
+}
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16)
+  return `${salt.toString("hex")}:${crypto.scryptSync(password, salt, 32).toString("hex")}`
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":")
+  const expected = Buffer.from(hash, "hex")
+  const actual = crypto.scryptSync(password, Buffer.from(salt, "hex"), expected.length)
+  return crypto.timingSafeEqual(expected, actual)
+}
+
+function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex")
+}
+
+function getSecret(): string {
+  return process.env.AUTH_SECRET || getStore().secret
+}
+
+function sign(value: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url")
+}
+
+/**
+ * Creates an account
+ * @throws ValidationError if the username or password is invalid, ConflictError if the username is taken
+ */
+export function createUser(username: string, password: string, role: Role): UserInfo {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new ValidationError("Invalid username: use 1-32 letters, digits, '.', '_' or '-'")
+  }
+  if (typeof password !== "string" || password.length < 8) {
+    throw new ValidationError("Password must be at least 8 characters")
+  }
+  if (!ROLES.includes(role)) {
+    throw new ValidationError(`Invalid role: ${role}. Must be one of: ${ROLES.join(", ")}`)
+  }
+  const store = getStore()
+  if (store.users.some((user) => user.username === username)) {
+    throw new ConflictError(`User already exists: ${username}`)
+  }
+
+  const user: StoredUser = { username, role, passwordHash: hashPassword(password), createdAt: Date.now() }
+  saveStore({ ...store, users: [...store.users, user] })
+  console.log("[v0] User created:", username, role)
+  return { username, role, createdAt: user.createdAt }
+}
+
+export function listUsers(): UserInfo[] {
+  return getStore().users.map(({ username, role, createdAt }) => ({ username, role, createdAt }))
+}
+
+/**
+ * Removes an account; its sessions stop working on their next request
+ * @returns true if the user existed
+ */
+export function deleteUser(username: string): boolean {
+  const store = getStore()
+  const users = store.users.filter((user) => user.username !== username)
+  if (users.length === store.users.length) return false
+  saveStore({ ...store, users })
+  return true
+}
+
+/**
+ * Creates an API key for scripts. The key itself is only returned here;
+ * just its hash is stored.
+ */
+export function createApiKey(name: string, role: Role): { key: string; info: ApiKeyInfo } {
+  if (!USERNAME_PATTERN.test(name)) {
+    throw new ValidationError("Invalid key name: use 1-32 letters, digits, '.', '_' or '-'")
+  }
+  if (!ROLES.includes(role)) {
+    throw new ValidationError(`Invalid role: ${role}. Must be one of: ${ROLES.join(", ")}`)
+  }
+
+  const key = `sk_${crypto.randomBytes(24).toString("hex")}`
+  const stored: StoredApiKey = {
+    id: crypto.randomBytes(6).toString("hex"),
+    name,
+    role,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, 10),
+    createdAt: Date.now(),
+  }
+  const store = getStore()
+  saveStore({ ...store, apiKeys: [...store.apiKeys, stored] })
+  console.log("[v0] API key created:", name, role)
+
+  return { key, info: toApiKeyInfo(stored) }
+}
+
+function toApiKeyInfo({ id, name, role, prefix, createdAt }: StoredApiKey): ApiKeyInfo {
+  return { id, name, role, prefix, createdAt }
+}
+
+export function listApiKeys(): ApiKeyInfo[] {
+  return getStore().apiKeys.map(toApiKeyInfo)
+}
+
+/**
+ * @returns true if the key existed
+ */
+export function revokeApiKey(id: string): boolean {
+  const store = getStore()
+  const apiKeys = store.apiKeys.filter((key) => key.id !== id)
+  if (apiKeys.length === store.apiKeys.length) return false
+  saveStore({ ...store, apiKeys })
+  return true
+}
+
+/**
+ * Checks a username and password
+ * @returns A signed session token and the logged-in user, or undefined if
+ * the credentials are wrong
+ */
+export function login(username: string, password: string): { token: string; principal: Principal } | undefined {
+  const user = getStore().users.find((u) => u.username === username)
+  if (!user || typeof password !== "string" || !verifyPassword(password, user.passwordHash)) {
+    return undefined
+  }
+  const expires = Date.now() + getAuthConfig().sessionTtlHours * 60 * 60 * 1000
+  const payload = Buffer.from(JSON.stringify({ username, expires })).toString("base64url")
+  return { token: `${payload}.${sign(payload)}`, principal: { kind: "user", name: user.username, role: user.role } }
+}
+
+function readSessionToken(token: string): Principal | undefined {
+  const [payload, signature] = token.split(".")
+  if (!payload || !signature) return undefined
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined
+
+  try {
+    const { username, expires } = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"))
+    if (typeof expires !== "number" || expires < Date.now()) return undefined
+    // Look the user up on every request so deleted users and role changes take effect immediately
+    const user = getStore().users.find((u) => u.username === username)
+    return user ? { kind: "user", name: user.username, role: user.role } : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get("cookie")
+  if (!header) return undefined
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(rest.join("="))
+  }
+  return undefined
+}
+
+/**
+ * Identifies the caller from an API key (`Authorization: Bearer ...` or
+ * `X-API-Key`) or the session cookie
+ * @returns The principal, or undefined if the request is not authenticated
+ * and anonymous access is disabled
+ */
+export function authenticate(request: Request): Principal | undefined {
+  const authorization = request.headers.get("authorization")
+  const apiKey = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? request.headers.get("x-api-key")
+  if (apiKey) {
+    const keyHash = hashApiKey(apiKey.trim())
+    const stored = getStore().apiKeys.find((key) => key.keyHash === keyHash)
+    return stored ? { kind: "apiKey", name: `key:${stored.name}`, role: stored.role } : undefined
+  }
+
+  const token = readCookie(request, SESSION_COOKIE)
+  const session = token ? readSessionToken(token) : undefined
+  if (session) return session
+
+  const { anonymousRole } = getAuthConfig()
+  return anonymousRole ? { kind: "anonymous", name: "anonymous", role: anonymousRole } : undefined
+}
+
+export function hasRole(principal: Principal | undefined, role: Role): boolean {
+  if (!principal) return false
+  return role === "contributor" || principal.role === "curator"
+}
+
+/**
+ * Guards a route handler:
+ *
+ *   const principal = requireRole(request, "curator")
+ *   if (principal instanceof NextResponse) return principal
+ *
+ * @returns The caller, or a 401 (not authenticated) / 403 (insufficient role) response
+ */
+export function requireRole(request: Request, role: Role): Principal | NextResponse {
+  const principal = authenticate(request)
+  if (!principal) {
+    return errorResponse(new UnauthorizedError(), "Authentication failed")
+  }
+  if (!hasRole(principal, role)) {
+    return errorResponse(new ForbiddenError(`This action requires the ${role} role`), "Authentication failed")
+  }
+  return principal
+}
@@ -0,0 +1,137 @@
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { getAllImages, type ImageData } from "@/lib/storage"
+import { getClassNames, getQualityNames, slugSchema } from "@/lib/taxonomy"
+import { NotFoundError } from "@/lib/errors"
+
+/**
+ * A collection campaign: how many samples of each label/quality combination
+ * guided mode should collect. Only samples submitted for the campaign count
+ * toward its quotas.
+ */
+export type Campaign = {
+  id: string
+  name: string
+  description?: string
+  defaultQuota: number // samples wanted for every label/quality combination
+  quotas: Record<string, Record<string, number>> // label -> quality -> overrides of defaultQuota; 0 skips the combination
+}
+
+export type CampaignConfig = {
+  active: string // campaign guided mode starts with
+  campaigns: Campaign[]
+}
+
+export type QuotaCell = {
+  label: string
+  quality: string
+  count: number
+  quota: number
+}
+
+export type CampaignProgress = {
+  campaign: Campaign
+  cells: QuotaCell[] // every combination with a quota, in taxonomy order
+  collected: number // samples counting toward a quota (extras beyond a quota are not counted)
+  required: number // sum of all quotas
+  complete: boolean
+}
+
+const campaignConfigSchema = z
+  .object({
+    active: slugSchema,
+    campaigns: z
+      .array(
+        z.object({
+          id: slugSchema,
+          name: z.string().min(1),
+          description: z.string().optional(),
+          defaultQuota: z.number().int().min(0),
+          quotas: z.record(z.record(z.number().int().min(0))).default({}),
+        }),
+      )
+      .min(1),
+  })
+  .refine((config) => config.campaigns.some((campaign) => campaign.id === config.active), {
+    message: "active must be the id of one of the campaigns",
+    path: ["active"],
+  })
+
+/**
+ * The id of a configured campaign
+ */
+export const campaignIdSchema = z.string().refine(
+  (value) => getCampaignConfig().campaigns.some((campaign) => campaign.id === value),
+  (value) => ({ message: `Unknown campaign: ${value}` }),
+)
+
+const DEFAULT_CONFIG: CampaignConfig = {
+  active: "default",
+  campaigns: [{ id: "default", name: "Balanced dataset", defaultQuota: 50, quotas: {} }],
+}
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "campaigns.json")
+
+export function getCampaignConfig(): CampaignConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return campaignConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading campaign config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+/**
+ * @param id - Defaults to the active campaign
+ * @throws NotFoundError if there is no campaign with that id
+ */
+export function getCampaign(id?: string): Campaign {
+  const config = getCampaignConfig()
+  const campaign = config.campaigns.find((c) => c.id === (id ?? config.active))
+  if (!campaign) {
+    throw new NotFoundError(`Campaign not found: ${id}`)
+  }
+  return campaign
+}
+
+/**
+ * Counts a campaign's samples against its quotas
+ * @throws NotFoundError if there is no campaign with that id
+ */
+export function getCampaignProgress(id?: string, images: ImageData[] = getAllImages()): CampaignProgress {
+  const campaign = getCampaign(id)
+  const counts = new Map<string, number>()
+  images.forEach((image) => {
+    if (image.campaign !== campaign.id) return
+    const key = `${image.label}/${image.quality}`
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  })
+
+  const cells: QuotaCell[] = []
+  getClassNames().forEach((label) => {
+    getQualityNames().forEach((quality) => {
+      const quota = campaign.quotas[label]?.[quality] ?? campaign.defaultQuota
+      if (quota > 0) {
+        cells.push({ label, quality, count: counts.get(`${label}/${quality}`) ?? 0, quota })
+      }
+    })
+  })
+
+  const collected = cells.reduce((sum, cell) => sum + Math.min(cell.count, cell.quota), 0)
+  const required = cells.reduce((sum, cell) => sum + cell.quota, 0)
+  return { campaign, cells, collected, required, complete: collected >= required }
+}
+
+/**
+ * The label/quality combination furthest below its quota: the lowest share
+ * of its quota collected, then the most samples missing
+ * @returns undefined once every quota is met
+ */
+export function getNextPrompt(progress: CampaignProgress): QuotaCell | undefined {
+  return progress.cells
+    .filter((cell) => cell.count < cell.quota)
+    .sort((a, b) => a.count / a.quota - b.count / b.quota || b.quota - b.count - (a.quota - a.count))[0]
+}
@@ -0,0 +1,411 @@
+import fs from "fs"
+import path from "path"
+import { getAllImages, readImageFile } from "@/lib/storage"
+import { decodeInk, resizeRaster, type Raster } from "@/lib/raster"
+import { analyzeShape } from "@/lib/shape-analysis"
+import { assignSplits } from "@/lib/dataset"
+import { getClassNames, getQualityNames } from "@/lib/taxonomy"
+import { ConflictError } from "@/lib/errors"
+
+/**
+ * Baseline classifier: softmax regression on a downsampled crop of the
+ * drawing plus a few shape metrics, one model for the label and one for the
+ * quality. It is a sanity check that the data is learnable, not a model to ship.
+ */
+
+export type TrainingOptions = {
+  testRatio: number // share of each label × quality stratum held out for the confusion matrices
+  seed: number // seed of the split
+  synthetic: boolean // whether generated samples take part
+}
+
+export type ConfusionReport = {
+  classes: string[]
+  matrix: number[][] // matrix[actual][predicted], both in the order of `classes`
+  accuracy: number | null // on the held-out split; null when it is empty
+}
+
+export type TrainingReport = TrainingOptions & {
+  trainedAt: number
+  trainSamples: number
+  testSamples: number
+  label: ConfusionReport
+  quality: ConfusionReport
+}
+
+/**
+ * Progress of the most recent training run
+ */
+export type TrainingStatus = {
+  running: boolean
+  total: number // samples to featurize
+  processed: number
+  failed: number // unreadable PNGs and blank drawings
+  startedAt: number
+  finishedAt?: number
+  error?: string // set when fitting failed; the previous model stays in use
+}
+
+export type ClassProbability = { name: string; probability: number }
+
+export type Prediction = {
+  label: string
+  labelConfidence: number
+  quality: string
+  qualityConfidence: number
+  labels: ClassProbability[] // every label, most likely first
+  qualities: ClassProbability[] // every quality, most likely first
+}
+
+// Softmax regression for one target
+type LinearModel = {
+  classes: string[]
+  weights: number[][] // one row of feature weights per class
+  bias: number[]
+}
+
+// Contents of data/classifier.json
+type StoredModel = {
+  mean: number[] // per-feature mean and scale of the training set, applied before the linear models
+  scale: number[]
+  label: LinearModel
+  quality: LinearModel
+  report: TrainingReport
+}
+
+type FeatureRow = { features: number[]; label: string; quality: string; test: boolean }
+
+const MODEL_PATH = path.join(process.cwd(), "data", "classifier.json")
+
+// The drawing's bounding box, squared and padded, is downsampled to this grid
+const GRID_SIZE = 16
+const CROP_PADDING = 4
+// Ink intensity above which a pixel counts toward the bounding box
+const INK_THRESHOLD = 64
+
+// Full-batch Adam on the cross-entropy with a small L2 penalty
+const EPOCHS = 300
+const LEARNING_RATE = 0.05
+const L2_PENALTY = 1e-3
+// Epochs fitted per tick, between which requests get served
+const EPOCHS_PER_TICK = 10
+
+// Samples featurized per tick of the job, between which requests get served
+const BATCH_SIZE = 25
+
+declare global {
+  var classifierModel: StoredModel | null | undefined // null: no model on disk
+  var classifierJob: TrainingStatus | undefined
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Feature vector of a drawing: the ink of its padded, squared bounding box
+ * on a GRID_SIZE grid, which makes it independent of position and size,
+ * followed by shape metrics and the box's aspect ratio
+ * @returns undefined for a blank drawing
+ */
+function extractFeatures(raster: Raster): number[] | undefined {
+  let minX = raster.width
+  let minY = raster.height
+  let maxX = -1
+  let maxY = -1
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      if (raster.data[y * raster.width + x] <= INK_THRESHOLD) continue
+      minX = Math.min(minX, x)
+      maxX = Math.max(maxX, x)
+      minY = Math.min(minY, y)
+      maxY = Math.max(maxY, y)
+    }
+  }
+  if (maxX < 0) return undefined
+
+  const width = maxX - minX + 1
+  const height = maxY - minY + 1
+  const side = Math.max(width, height) + 2 * CROP_PADDING
+  const left = Math.round((minX + maxX + 1 - side) / 2)
+  const top = Math.round((minY + maxY + 1 - side) / 2)
+  const crop: Raster = { width: side, height: side, data: new Uint8Array(side * side) }
+  for (let y = 0; y < side; y++) {
+    const sourceY = top + y
+    if (sourceY < 0 || sourceY >= raster.height) continue
+    for (let x = 0; x < side; x++) {
+      const sourceX = left + x
+      if (sourceX < 0 || sourceX >= raster.width) continue
+      crop.data[y * side + x] = raster.data[sourceY * raster.width + sourceX]
+    }
+  }
+
+  const pixels = Array.from(resizeRaster(crop, GRID_SIZE, GRID_SIZE).data, (value) => value / 255)
+  const metrics = analyzeShape({ raster }, undefined)
+  return [
+    ...pixels,
+    metrics?.circularity ?? 0,
+    metrics?.radiusVariance ?? 0,
+    metrics?.closureGap ?? 0,
+    metrics?.cornerCount ?? 0,
+    metrics?.angleDeviation ?? 0,
+    metrics?.sideDeviation ?? 0,
+    Math.min(width, height) / Math.max(width, height),
+  ]
+}
+
+function standardize(features: number[], mean: number[], scale: number[]): number[] {
+  return features.map((value, i) => (value - mean[i]) / scale[i])
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits)
+  const exps = logits.map((logit) => Math.exp(logit - max))
+  const sum = exps.reduce((total, value) => total + value, 0)
+  return exps.map((value) => value / sum)
+}
+
+function predictProbabilities(model: LinearModel, features: number[]): number[] {
+  return softmax(
+    model.weights.map((row, k) => row.reduce((sum, weight, i) => sum + weight * features[i], model.bias[k])),
+  )
+}
+
+/**
+ * Fits softmax regression to standardized features, yielding to the event
+ * loop every few epochs so a large training set doesn't block requests
+ * @param targets - Index into `classes` for each row
+ */
+async function fitLinearModel(features: number[][], targets: number[], classes: string[]): Promise<LinearModel> {
+  const dimensions = features[0].length
+  const k = classes.length
+  // Bias is stored as the last column of each row while fitting
+  const weights = Array.from({ length: k }, () => new Float64Array(dimensions + 1))
+  const moment1 = Array.from({ length: k }, () => new Float64Array(dimensions + 1))
+  const moment2 = Array.from({ length: k }, () => new Float64Array(dimensions + 1))
+  const gradient = Array.from({ length: k }, () => new Float64Array(dimensions + 1))
+  const beta1 = 0.9
+  const beta2 = 0.999
+
+  for (let epoch = 1; epoch <= EPOCHS; epoch++) {
+    if (epoch % EPOCHS_PER_TICK === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0).unref())
+    }
+    gradient.forEach((row) => row.fill(0))
+    features.forEach((x, n) => {
+      const logits = weights.map((row) => {
+        let sum = row[dimensions]
+        for (let i = 0; i < dimensions; i++) sum += row[i] * x[i]
+        return sum
+      })
+      const probabilities = softmax(logits)
+      for (let c = 0; c < k; c++) {
+        const error = (probabilities[c] - (targets[n] === c ? 1 : 0)) / features.length
+        const row = gradient[c]
+        for (let i = 0; i < dimensions; i++) row[i] += error * x[i]
+        row[dimensions] += error
+      }
+    })
+
+    for (let c = 0; c < k; c++) {
+      for (let i = 0; i <= dimensions; i++) {
+        const g = gradient[c][i] + (i < dimensions ? L2_PENALTY * weights[c][i] : 0)
+        moment1[c][i] = beta1 * moment1[c][i] + (1 - beta1) * g
+        moment2[c][i] = beta2 * moment2[c][i] + (1 - beta2) * g * g
+        const m = moment1[c][i] / (1 - beta1 ** epoch)
+        const v = moment2[c][i] / (1 - beta2 ** epoch)
+        weights[c][i] -= (LEARNING_RATE * m) / (Math.sqrt(v) + 1e-8)
+      }
+    }
+  }
+
+  return {
+    classes,
+    weights: weights.map((row) => Array.from(row.subarray(0, dimensions))),
+    bias: weights.map((row) => row[dimensions]),
+  }
+}
+
+function evaluate(model: LinearModel, rows: { features: number[]; target: string }[]): ConfusionReport {
+  const matrix = model.classes.map(() => model.classes.map(() => 0))
+  let correct = 0
+  rows.forEach(({ features, target }) => {
+    const probabilities = predictProbabilities(model, features)
+    const predicted = probabilities.indexOf(Math.max(...probabilities))
+    const actual = model.classes.indexOf(target)
+    matrix[actual][predicted]++
+    if (actual === predicted) correct++
+  })
+  return { classes: model.classes, matrix, accuracy: rows.length > 0 ? round3(correct / rows.length) : null }
+}
+
+/**
+ * Classes present in the data, in taxonomy order; names no longer in the
+ * taxonomy come last
+ */
+function orderClasses(names: string[], order: string[]): string[] {
+  const rank = (name: string) => (order.includes(name) ? order.indexOf(name) : order.length)
+  return [...new Set(names)].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+}
+
+async function fitModel(rows: FeatureRow[], options: TrainingOptions): Promise<StoredModel> {
+  const train = rows.filter((row) => !row.test)
+  const test = rows.filter((row) => row.test)
+  if (train.length === 0) throw new Error("No readable training samples")
+
+  const dimensions = train[0].features.length
+  const mean = Array.from({ length: dimensions }, (_, i) => train.reduce((sum, row) => sum + row.features[i], 0) / train.length)
+  // Constant features (e.g. pixels no drawing reaches) keep a scale of 1
+  const scale = mean.map((m, i) => {
+    const deviation = Math.sqrt(train.reduce((sum, row) => sum + (row.features[i] - m) ** 2, 0) / train.length)
+    return deviation > 1e-6 ? deviation : 1
+  })
+  const trainFeatures = train.map((row) => standardize(row.features, mean, scale))
+  const testFeatures = test.map((row) => standardize(row.features, mean, scale))
+
+  const labels = orderClasses(rows.map((row) => row.label), getClassNames())
+  const qualities = orderClasses(rows.map((row) => row.quality), getQualityNames())
+  const label = await fitLinearModel(trainFeatures, train.map((row) => labels.indexOf(row.label)), labels)
+  const quality = await fitLinearModel(trainFeatures, train.map((row) => qualities.indexOf(row.quality)), qualities)
+
+  return {
+    mean,
+    scale,
+    label,
+    quality,
+    report: {
+      ...options,
+      trainedAt: Date.now(),
+      trainSamples: train.length,
+      testSamples: test.length,
+      label: evaluate(label, test.map((row, i) => ({ features: testFeatures[i], target: row.label }))),
+      quality: evaluate(quality, test.map((row, i) => ({ features: testFeatures[i], target: row.quality }))),
+    },
+  }
+}
+
+function loadModel(): StoredModel | undefined {
+  if (globalThis.classifierModel === undefined) {
+    globalThis.classifierModel = null
+    try {
+      if (fs.existsSync(MODEL_PATH)) {
+        globalThis.classifierModel = JSON.parse(fs.readFileSync(MODEL_PATH, "utf-8")) as StoredModel
+      }
+    } catch (error) {
+      console.error("[v0] Error loading classifier model:", error)
+    }
+  }
+  return globalThis.classifierModel ?? undefined
+}
+
+function saveModel(model: StoredModel) {
+  fs.mkdirSync(path.dirname(MODEL_PATH), { recursive: true })
+  const tmpPath = `${MODEL_PATH}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(model))
+  fs.renameSync(tmpPath, MODEL_PATH)
+  globalThis.classifierModel = model
+}
+
+/**
+ * Evaluation of the current model, if one has been trained
+ */
+export function getTrainingReport(): TrainingReport | undefined {
+  return loadModel()?.report
+}
+
+export function getTrainingStatus(): TrainingStatus | undefined {
+  return globalThis.classifierJob
+}
+
+/**
+ * Classifies a 256×256 PNG with the current model
+ * @returns undefined when no model has been trained or the drawing is blank
+ */
+export function predictImage(png: Buffer): Prediction | undefined {
+  const model = loadModel()
+  if (!model) return undefined
+  const features = extractFeatures(decodeInk(png))
+  if (!features) return undefined
+
+  const standardized = standardize(features, model.mean, model.scale)
+  const rank = (linear: LinearModel): ClassProbability[] =>
+    predictProbabilities(linear, standardized)
+      .map((probability, i) => ({ name: linear.classes[i], probability: round3(probability) }))
+      .sort((a, b) => b.probability - a.probability)
+  const labels = rank(model.label)
+  const qualities = rank(model.quality)
+  return {
+    label: labels[0].name,
+    labelConfidence: labels[0].probability,
+    quality: qualities[0].name,
+    qualityConfidence: qualities[0].probability,
+    labels,
+    qualities,
+  }
+}
+
+/**
+ * Fits both models on the store: samples are split into train and test
+ * stratified by label × quality, featurized in small batches on timers,
+ * then fitted on the train split and evaluated on the test split. The new
+ * model replaces the current one once fitted. Does nothing if a run is
+ * already in progress.
+ * @throws ConflictError if fewer than two labels have samples
+ * @returns The run's status, which keeps updating as it runs
+ */
+export function startTraining(options: TrainingOptions): TrainingStatus {
+  if (globalThis.classifierJob?.running) return globalThis.classifierJob
+
+  const images = getAllImages().filter(
+    (image) => /\.png$/i.test(image.filename) && (options.synthetic || !image.synthetic),
+  )
+  if (new Set(images.map((image) => image.label)).size < 2) {
+    throw new ConflictError("Training needs samples of at least two labels")
+  }
+  const pending = assignSplits({ train: 1 - options.testRatio, val: 0, test: options.testRatio }, options.seed, images)
+
+  const status: TrainingStatus = {
+    running: true,
+    total: pending.length,
+    processed: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  }
+  globalThis.classifierJob = status
+  console.log(`[v0] Training classifier on ${pending.length} samples`)
+
+  const rows: FeatureRow[] = []
+  const finish = async () => {
+    try {
+      const model = await fitModel(rows, options)
+      saveModel(model)
+      console.log(
+        `[v0] Classifier trained: label accuracy ${model.report.label.accuracy}, quality accuracy ${model.report.quality.accuracy}`,
+      )
+    } catch (error) {
+      console.error("[v0] Error training classifier:", error)
+      status.error = error instanceof Error ? error.message : String(error)
+    }
+    status.running = false
+    status.finishedAt = Date.now()
+  }
+
+  const runBatch = async () => {
+    for (const { image, split } of pending.splice(0, BATCH_SIZE)) {
+      try {
+        const features = extractFeatures(decodeInk(await readImageFile(image)))
+        if (features) {
+          rows.push({ features, label: image.label, quality: image.quality, test: split === "test" })
+        } else {
+          status.failed++
+        }
+      } catch (error) {
+        console.error("[v0] Error reading sample for training:", image.filePath, error)
+        status.failed++
+      }
+      status.processed++
+    }
+
+    setTimeout(pending.length > 0 ? runBatch : finish, 0).unref()
+  }
+  setTimeout(runBatch, 0).unref()
+  return status
+}
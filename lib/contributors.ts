@@ -0,0 +1,73 @@
+import { z } from "zod"
+import { getAllImages, type ImageData } from "@/lib/storage"
+
+/**
+ * Submission counts for one contributor. Samples submitted without a
+ * contributor are grouped under `contributor: null`.
+ */
+export type ContributorStats = {
+  contributor: string | null
+  total: number
+  byLabel: Record<string, number>
+  byQuality: Record<string, number>
+  flagged: number // samples stored with submission-check flags
+  qualityMismatches: number // samples whose chosen quality differs from the suggested one
+  firstSubmission: number
+  lastSubmission: number
+  timeline: { date: string; count: number }[] // submissions per UTC day, oldest first
+}
+
+/**
+ * A contributor name or code: 1–64 letters, digits, spaces or . _ @ -
+ */
+export const contributorSchema = z
+  .string()
+  .regex(/^[\p{L}\p{N} ._@-]{1,64}$/u, "Use 1-64 letters, digits, spaces or . _ @ -")
+  .refine((value) => value.trim() === value, "Must not start or end with a space")
+
+/**
+ * Per-contributor counts and daily submission timelines, most active first
+ */
+export function getContributorStats(images: ImageData[] = getAllImages()): ContributorStats[] {
+  const stats = new Map<string | null, ContributorStats>()
+  const days = new Map<string | null, Map<string, number>>()
+
+  images.forEach((image) => {
+    const key = image.contributor ?? null
+    let entry = stats.get(key)
+    if (!entry) {
+      entry = {
+        contributor: key,
+        total: 0,
+        byLabel: {},
+        byQuality: {},
+        flagged: 0,
+        qualityMismatches: 0,
+        firstSubmission: image.timestamp,
+        lastSubmission: image.timestamp,
+        timeline: [],
+      }
+      stats.set(key, entry)
+      days.set(key, new Map())
+    }
+
+    entry.total++
+    entry.byLabel[image.label] = (entry.byLabel[image.label] ?? 0) + 1
+    entry.byQuality[image.quality] = (entry.byQuality[image.quality] ?? 0) + 1
+    if (image.flags && image.flags.length > 0) entry.flagged++
+    if (image.suggestedQuality && image.suggestedQuality !== image.quality) entry.qualityMismatches++
+    entry.firstSubmission = Math.min(entry.firstSubmission, image.timestamp)
+    entry.lastSubmission = Math.max(entry.lastSubmission, image.timestamp)
+
+    const date = new Date(image.timestamp).toISOString().slice(0, 10)
+    const perDay = days.get(key)!
+    perDay.set(date, (perDay.get(date) ?? 0) + 1)
+  })
+
+  stats.forEach((entry, key) => {
+    entry.timeline = [...days.get(key)!.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, count]) => ({ date, count }))
+  })
+  return [...stats.values()].sort((a, b) => b.total - a.total)
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+import { assignSplits, createRandom, normalizeRatios, type ExportImage } from "@/lib/dataset"
+import { ValidationError } from "@/lib/errors"
+
+function makeImage(label: string, quality: string, n: number): ExportImage {
+  const filename = `${label}_${quality}_${String(n).padStart(4, "0")}.png`
+  return { filename, label, quality, image: "", timestamp: n, filePath: `shapes/${label}/${quality}/${filename}` }
+}
+
+function makeStratum(label: string, quality: string, size: number): ExportImage[] {
+  return Array.from({ length: size }, (_, n) => makeImage(label, quality, n))
+}
+
+function splitsByFilename(images: ExportImage[], seed: number): Map<string, string> {
+  return new Map(
+    assignSplits({ train: 0.7, val: 0.15, test: 0.15 }, seed, images).map(({ image, split }) => [image.filename, split]),
+  )
+}
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom(42)
+    const b = createRandom(42)
+    const first = Array.from({ length: 5 }, a)
+    expect(Array.from({ length: 5 }, b)).toEqual(first)
+    expect(first.every((value) => value >= 0 && value < 1)).toBe(true)
+  })
+
+  it("gives different sequences for different seeds", () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)())
+  })
+})
+
+describe("normalizeRatios", () => {
+  it("scales the ratios to sum to 1", () => {
+    expect(normalizeRatios({ train: 8, val: 1, test: 1 })).toEqual({ train: 0.8, val: 0.1, test: 0.1 })
+  })
+
+  it("rejects negative and all-zero ratios", () => {
+    expect(() => normalizeRatios({ train: -1, val: 1, test: 1 })).toThrow(ValidationError)
+    expect(() => normalizeRatios({ train: 0, val: 0, test: 0 })).toThrow(ValidationError)
+  })
+})
+
+describe("assignSplits", () => {
+  const images = [...makeStratum("circle", "perfect", 40), ...makeStratum("square", "bad", 20)]
+
+  it("gives the same assignment for the same seed, whatever the input order", () => {
+    const shuffled = [...images].reverse()
+    expect(splitsByFilename(shuffled, 7)).toEqual(splitsByFilename(images, 7))
+  })
+
+  it("changes the assignment with the seed", () => {
+    expect(splitsByFilename(images, 8)).not.toEqual(splitsByFilename(images, 7))
+  })
+
+  it("splits every stratum by the ratios", () => {
+    const assigned = assignSplits({ train: 0.7, val: 0.15, test: 0.15 }, 7, images)
+    const count = (label: string, split: string) =>
+      assigned.filter(({ image, split: s }) => image.label === label && s === split).length
+    expect([count("circle", "train"), count("circle", "val"), count("circle", "test")]).toEqual([28, 6, 6])
+    expect([count("square", "train"), count("square", "val"), count("square", "test")]).toEqual([14, 3, 3])
+  })
+
+  it("seeds each stratum from its key, so new strata leave existing ones alone", () => {
+    const before = splitsByFilename(images, 7)
+    // "a…" sorts before both existing strata, shifting their positions
+    const after = splitsByFilename([...makeStratum("arrow", "perfect", 15), ...images], 7)
+    images.forEach((image) => expect(after.get(image.filename)).toBe(before.get(image.filename)))
+  })
+
+  it("keeps existing samples in place when a stratum's siblings are in another quality", () => {
+    const before = splitsByFilename(images, 7)
+    const after = splitsByFilename([...images, ...makeStratum("circle", "good", 10)], 7)
+    images.forEach((image) => expect(after.get(image.filename)).toBe(before.get(image.filename)))
+  })
+})
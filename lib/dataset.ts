@@ -0,0 +1,190 @@
+import crypto from "crypto"
+import { getAllImages, type ImageData } from "@/lib/storage"
+import { ValidationError } from "@/lib/errors"
+import type { AugmentedSample } from "@/lib/augmentation"
+
+export type Split = "train" | "val" | "test"
+
+export type SplitRatios = Record<Split, number>
+
+export type ManifestEntry = {
+  filename: string
+  path: string // path of the image inside the export archive
+  label: string
+  quality: string
+  timestamp: number
+  split: Split
+  reportedQuality?: string // the drawer's own grade, when `quality` is the reviewers' consensus
+  source?: string // for augmented variants, the filename of the sample they were derived from
+}
+
+/**
+ * A sample as exported; `quality` may have been replaced by the reviewers'
+ * consensus (see applyQualitySource)
+ */
+export type ExportImage = ImageData & { reportedQuality?: string }
+
+export type AssignedImage = {
+  image: ExportImage
+  split: Split
+  augmentation?: AugmentedSample // set when `image` is a variant derived from another sample
+}
+
+export const DEFAULT_SPLIT_RATIOS: SplitRatios = { train: 0.8, val: 0.1, test: 0.1 }
+
+const SPLITS: Split[] = ["train", "val", "test"]
+
+/**
+ * Small seeded PRNG (mulberry32) so that splits are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Seed for one stratum's shuffle, derived from its key rather than its
+ * position, so adding a label or quality level never reshuffles the others
+ */
+function getStratumSeed(seed: number, key: string): number {
+  return crypto.createHash("sha256").update(`${seed}:${key}`).digest().readUInt32BE(0)
+}
+
+/**
+ * Normalizes split ratios so they sum to 1
+ * @throws Error if any ratio is negative or all of them are zero
+ */
+export function normalizeRatios(ratios: SplitRatios): SplitRatios {
+  if (SPLITS.some((split) => !Number.isFinite(ratios[split]) || ratios[split] < 0)) {
+    throw new ValidationError("Split ratios must be non-negative numbers")
+  }
+  const total = ratios.train + ratios.val + ratios.test
+  if (total <= 0) {
+    throw new ValidationError("At least one split ratio must be greater than zero")
+  }
+  return { train: ratios.train / total, val: ratios.val / total, test: ratios.test / total }
+}
+
+/**
+ * Assigns every image to a split, stratified by label × quality.
+ * Each stratum is sorted by filename before a seeded shuffle, so the same
+ * seed and the same data always give the same assignment.
+ * @param ratios - Split ratios (normalized internally)
+ * @param seed - Seed for the shuffle
+ * @param images - Samples to split, by default the whole store
+ */
+export function assignSplits(ratios: SplitRatios, seed: number, images: ExportImage[] = getAllImages()): AssignedImage[] {
+  const normalized = normalizeRatios(ratios)
+
+  // Group the samples into label × quality strata
+  const strata = new Map<string, ExportImage[]>()
+  images.forEach((img) => {
+    const key = `${img.label}/${img.quality}`
+    if (!strata.has(key)) strata.set(key, [])
+    strata.get(key)!.push(img)
+  })
+
+  const assigned: AssignedImage[] = []
+  const sortedKeys = [...strata.keys()].sort()
+
+  sortedKeys.forEach((key) => {
+    const stratum = [...strata.get(key)!].sort((a, b) => a.filename.localeCompare(b.filename))
+
+    // Fisher-Yates shuffle with a per-stratum seed
+    const random = createRandom(getStratumSeed(seed, key))
+    for (let i = stratum.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[stratum[i], stratum[j]] = [stratum[j], stratum[i]]
+    }
+
+    const trainCount = Math.round(stratum.length * normalized.train)
+    const valCount = Math.min(Math.round(stratum.length * normalized.val), stratum.length - trainCount)
+
+    stratum.forEach((image, i) => {
+      const split: Split = i < trainCount ? "train" : i < trainCount + valCount ? "val" : "test"
+      assigned.push({ image, split })
+    })
+  })
+
+  return assigned
+}
+
+/**
+ * Adds augmented variants to a split assignment, each in its source's split
+ * and filed under its source's label and quality, so a sample and its
+ * variants never end up on both sides of a train/test boundary. Variants
+ * whose source is not in the assignment are left out.
+ * @returns The assignment with each source's variants right after it
+ */
+export function attachAugmentations(assigned: AssignedImage[], variants: AugmentedSample[]): AssignedImage[] {
+  const variantsBySource = new Map<string, AugmentedSample[]>()
+  variants.forEach((variant) => {
+    if (!variantsBySource.has(variant.source)) variantsBySource.set(variant.source, [])
+    variantsBySource.get(variant.source)!.push(variant)
+  })
+
+  return assigned.flatMap((entry) => {
+    const derived = (variantsBySource.get(entry.image.filePath) ?? [])
+      .sort((a, b) => a.variant - b.variant)
+      .map((variant): AssignedImage => {
+        const image: ExportImage = {
+          filename: variant.filename,
+          label: entry.image.label,
+          quality: entry.image.quality,
+          image: "",
+          timestamp: variant.timestamp,
+          filePath: variant.filePath,
+          strokesPath: variant.strokesPath,
+        }
+        if (entry.image.reportedQuality !== undefined) image.reportedQuality = entry.image.reportedQuality
+        return { image, split: entry.split, augmentation: variant }
+      })
+    return [entry, ...derived]
+  })
+}
+
+/**
+ * Builds the manifest rows for a set of split assignments
+ */
+export function buildManifest(assigned: AssignedImage[]): ManifestEntry[] {
+  return assigned.map(({ image, split, augmentation }) => {
+    const entry: ManifestEntry = {
+      filename: image.filename,
+      path: `${split}/${image.label}/${image.quality}/${image.filename}`,
+      label: image.label,
+      quality: image.quality,
+      timestamp: image.timestamp,
+      split,
+    }
+    if (image.reportedQuality !== undefined) entry.reportedQuality = image.reportedQuality
+    if (augmentation) entry.source = augmentation.source.split("/").pop()
+    return entry
+  })
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes manifest rows as CSV with a header line. The reportedQuality
+ * column is only added when the export uses consensus qualities, and the
+ * source column only when it includes augmented variants.
+ */
+export function manifestToCsv(manifest: ManifestEntry[]): string {
+  const columns: (keyof ManifestEntry)[] = ["filename", "path", "label", "quality", "timestamp", "split"]
+  if (manifest.some((entry) => entry.reportedQuality !== undefined)) columns.push("reportedQuality")
+  if (manifest.some((entry) => entry.source !== undefined)) columns.push("source")
+  const lines = [columns.join(",")]
+  manifest.forEach((entry) => {
+    lines.push(columns.map((column) => escapeCsv(entry[column] ?? "")).join(","))
+  })
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+/**
+ * Machine-readable error codes returned in every API error body
+ */
+export type ErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "payload_too_large"
+  | "unprocessable"
+  | "internal_error"
+
+export type ValidationIssue = {
+  path: string // dotted path to the offending field, e.g. "strokes.0.3.x"; empty for the whole body
+  message: string
+}
+
+/**
+ * Shape of every API error response
+ */
+export type ErrorBody = {
+  error: string // human-readable summary
+  code: ErrorCode
+  issues?: ValidationIssue[] // invalid_request: one entry per invalid field
+  details?: unknown // extra context, e.g. the submission checks that rejected a drawing
+}
+
+/**
+ * An error that maps to a specific HTTP status. Library code throws these so
+ * route handlers can turn them into responses with errorResponse.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ErrorCode
+  readonly details?: unknown
+
+  constructor(status: number, code: ErrorCode, message: string, details?: unknown) {
+    super(message)
+    this.name = new.target.name
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+/**
+ * 400: the request is malformed or a field is out of range
+ */
+export class ValidationError extends ApiError {
+  readonly issues: ValidationIssue[]
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(400, "invalid_request", message)
+    this.issues = issues
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Authentication required") {
+    super(401, "unauthorized", message)
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, "forbidden", message)
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, "not_found", message)
+  }
+}
+
+/**
+ * 409: the request is valid but clashes with existing data
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, "conflict", message)
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string) {
+    super(413, "payload_too_large", message)
+  }
+}
+
+/**
+ * 422: well-formed, but the content is unusable (not a 256×256 PNG, or
+ * rejected by the submission checks)
+ */
+export class UnprocessableError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(422, "unprocessable", message, details)
+  }
+}
+
+export function fromZodError(error: ZodError, message = "Invalid request"): ValidationError {
+  const issues = error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+  const summary = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ")
+  return new ValidationError(summary ? `${message}: ${summary}` : message, issues)
+}
+
+/**
+ * Converts anything thrown in a route handler into an error response.
+ * ApiErrors keep their status; anything else is logged and becomes a 500.
+ * @param fallbackMessage - Summary used for unexpected errors, e.g. "Failed to save image"
+ */
+export function errorResponse(error: unknown, fallbackMessage: string): NextResponse<ErrorBody> {
+  if (error instanceof ZodError) {
+    error = fromZodError(error)
+  }
+  if (error instanceof ApiError) {
+    const body: ErrorBody = { error: error.message, code: error.code }
+    if (error instanceof ValidationError && error.issues.length > 0) body.issues = error.issues
+    if (error.details !== undefined) body.details = error.details
+    return NextResponse.json(body, { status: error.status })
+  }
+
+  // The error itself stays in the server log; its message can expose paths or internals
+  console.error(`[v0] ${fallbackMessage}:`, error)
+  return NextResponse.json({ error: fallbackMessage, code: "internal_error" as const }, { status: 500 })
+}
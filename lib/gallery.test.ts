@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { queryGallery, type GalleryQuery } from "@/lib/gallery"
+import { ValidationError } from "@/lib/errors"
+import type { ImageData } from "@/lib/storage"
+
+function makeImage(n: number, overrides: Partial<ImageData> = {}): ImageData {
+  const filename = `circle_${n}.png`
+  return {
+    filename,
+    label: "circle",
+    quality: "perfect",
+    image: "",
+    // Pairs of samples share a timestamp, so paging has to break ties by path
+    timestamp: 1000 + Math.floor(n / 2),
+    filePath: `shapes/circles/perfect/${filename}`,
+    ...overrides,
+  }
+}
+
+// Walks every page of a query and returns the file paths in order
+function collectPages(query: GalleryQuery, images: ImageData[]): string[][] {
+  const pages: string[][] = []
+  let cursor: string | undefined
+  do {
+    const page = queryGallery({ ...query, cursor }, images)
+    pages.push(page.images.map((image) => image.filePath))
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+  return pages
+}
+
+describe("queryGallery", () => {
+  const images = Array.from({ length: 25 }, (_, n) => makeImage(n))
+
+  it("pages through every sample exactly once", () => {
+    const pages = collectPages({ sort: "newest", limit: 10 }, images)
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5])
+    const all = pages.flat()
+    expect(new Set(all).size).toBe(25)
+    const timestamps = all.map((filePath) => images.find((image) => image.filePath === filePath)!.timestamp)
+    expect(timestamps).toEqual([...timestamps].sort((a, b) => b - a))
+  })
+
+  it("returns no cursor when everything fits on one page", () => {
+    expect(queryGallery({ sort: "oldest", limit: 25 }, images).nextCursor).toBeNull()
+  })
+
+  it("keeps later pages in place when samples are added or deleted", () => {
+    const first = queryGallery({ sort: "oldest", limit: 10 }, images)
+    const changed = [makeImage(-1, { timestamp: 0 }), ...images.filter((image) => image !== images[3])]
+    const second = queryGallery({ sort: "oldest", limit: 10, cursor: first.nextCursor! }, changed)
+    expect(second.images.map((image) => image.filename)).toEqual(
+      images.slice(10, 20).map((image) => image.filename),
+    )
+  })
+
+  it("sorts by score with unscored samples last", () => {
+    const scored = [
+      makeImage(0, { metrics: { score: 0.2 } as ImageData["metrics"] }),
+      makeImage(1),
+      makeImage(2, { metrics: { score: 0.9 } as ImageData["metrics"] }),
+    ]
+    const page = queryGallery({ sort: "score-desc", limit: 2 }, scored)
+    expect(page.images.map((image) => image.filename)).toEqual(["circle_2.png", "circle_0.png"])
+    const rest = queryGallery({ sort: "score-desc", limit: 2, cursor: page.nextCursor! }, scored)
+    expect(rest.images.map((image) => image.filename)).toEqual(["circle_1.png"])
+    expect(rest.nextCursor).toBeNull()
+  })
+
+  it("counts each breakdown with every filter but its own", () => {
+    const mixed = [
+      makeImage(0),
+      makeImage(1, { quality: "medium" }),
+      makeImage(2, { label: "square" }),
+      makeImage(3, { label: "square", quality: "medium" }),
+      makeImage(4, { synthetic: true }),
+    ]
+    const page = queryGallery({ sort: "newest", limit: 10, label: "circle", origin: "drawn" }, mixed)
+    expect(page.counts).toEqual({
+      total: 2,
+      byLabel: { circle: 2, square: 2 },
+      byQuality: { perfect: 1, medium: 1 },
+    })
+  })
+
+  it("rejects a malformed cursor", () => {
+    expect(() => queryGallery({ sort: "newest", limit: 10, cursor: "not-a-cursor" }, images)).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,133 @@
+import { z } from "zod"
+import { getAllImages, type ImageData } from "@/lib/storage"
+import { ValidationError } from "@/lib/errors"
+
+export const GALLERY_SORTS = ["newest", "oldest", "score-desc", "score-asc"] as const
+
+export type GallerySort = (typeof GALLERY_SORTS)[number]
+
+// Drawn on the drawing page, rendered by the shape generator, or bulk-imported
+export const SAMPLE_ORIGINS = ["drawn", "synthetic", "imported"] as const
+
+export type SampleOrigin = (typeof SAMPLE_ORIGINS)[number]
+
+export const DEFAULT_PAGE_SIZE = 48
+export const MAX_PAGE_SIZE = 200
+
+/**
+ * Which samples to show. Every field is optional; `from` and `to` are epoch
+ * milliseconds and both inclusive.
+ */
+export type GalleryFilter = {
+  label?: string
+  quality?: string
+  contributor?: string
+  origin?: SampleOrigin
+  from?: number
+  to?: number
+}
+
+export type GalleryQuery = GalleryFilter & {
+  sort: GallerySort
+  cursor?: string // nextCursor of the previous page
+  limit: number
+}
+
+/**
+ * Sample counts for the filter buttons. Each breakdown applies every filter
+ * except its own, so the label buttons keep their counts while a label is
+ * selected.
+ */
+export type GalleryCounts = {
+  total: number // samples matching all filters
+  byLabel: Record<string, number>
+  byQuality: Record<string, number>
+}
+
+export type GalleryPage = {
+  images: ImageData[]
+  nextCursor: string | null // null on the last page
+  counts: GalleryCounts
+}
+
+// Position of the last sample on a page: its sort value, with filePath breaking ties
+const cursorSchema = z.object({ value: z.number(), filePath: z.string() })
+
+type Cursor = z.infer<typeof cursorSchema>
+
+function sortValue(image: ImageData, sort: GallerySort): number {
+  // Scores are in [0, 1]; samples without metrics sort below all scored ones
+  return sort === "newest" || sort === "oldest" ? image.timestamp : (image.metrics?.score ?? -1)
+}
+
+function compare(a: Cursor, b: Cursor, sort: GallerySort): number {
+  const direction = sort === "newest" || sort === "score-desc" ? -1 : 1
+  return direction * (a.value - b.value) || a.filePath.localeCompare(b.filePath)
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")))
+  } catch {
+    throw new ValidationError("Invalid cursor")
+  }
+}
+
+export function getSampleOrigin(image: ImageData): SampleOrigin {
+  if (image.synthetic) return "synthetic"
+  return image.importSource ? "imported" : "drawn"
+}
+
+function matches(image: ImageData, filter: GalleryFilter): boolean {
+  return (
+    (filter.label === undefined || image.label === filter.label) &&
+    (filter.quality === undefined || image.quality === filter.quality) &&
+    (filter.contributor === undefined || image.contributor === filter.contributor) &&
+    (filter.origin === undefined || getSampleOrigin(image) === filter.origin) &&
+    (filter.from === undefined || image.timestamp >= filter.from) &&
+    (filter.to === undefined || image.timestamp <= filter.to)
+  )
+}
+
+/**
+ * Filters, sorts and pages the samples. The cursor encodes the position of
+ * the last sample returned rather than an offset, so pages don't shift when
+ * samples are added or deleted between requests.
+ * @throws ValidationError if the cursor is malformed
+ */
+export function queryGallery(query: GalleryQuery, images: ImageData[] = getAllImages()): GalleryPage {
+  const { sort, limit, cursor, ...filter } = query
+  const after = cursor === undefined ? undefined : decodeCursor(cursor)
+
+  const counts: GalleryCounts = { total: 0, byLabel: {}, byQuality: {} }
+  const matching: ImageData[] = []
+  images.forEach((image) => {
+    if (matches(image, { ...filter, label: undefined })) {
+      counts.byLabel[image.label] = (counts.byLabel[image.label] ?? 0) + 1
+    }
+    if (matches(image, { ...filter, quality: undefined })) {
+      counts.byQuality[image.quality] = (counts.byQuality[image.quality] ?? 0) + 1
+    }
+    if (matches(image, filter)) {
+      counts.total++
+      matching.push(image)
+    }
+  })
+
+  const keyed = matching
+    .map((image) => ({ image, key: { value: sortValue(image, sort), filePath: image.filePath } }))
+    .filter(({ key }) => after === undefined || compare(key, after, sort) > 0)
+    .sort((a, b) => compare(a.key, b.key, sort))
+
+  const page = keyed.slice(0, limit)
+  const last = page[page.length - 1]
+  return {
+    images: page.map(({ image }) => image),
+    nextCursor: keyed.length > limit && last ? encodeCursor(last.key) : null,
+    counts,
+  }
+}
@@ -0,0 +1,389 @@
+import sharp from "sharp"
+import { z } from "zod"
+import { addImage, checkImage } from "@/lib/storage"
+import { encodeInk, renderStrokes, type Raster } from "@/lib/raster"
+import { analyzeShape, suggestQuality } from "@/lib/shape-analysis"
+import { getExpectedCorners, getQualityNames, getTaxonomy } from "@/lib/taxonomy"
+import type { Stroke } from "@/lib/strokes"
+import { readZip } from "@/lib/zip"
+import { CANVAS_SIZE } from "@/lib/validation"
+import { ConflictError } from "@/lib/errors"
+
+/**
+ * Bulk import of existing drawings: loose PNG/JPG files (a folder upload
+ * keeps its directories), ZIP archives of them, and QuickDraw NDJSON.
+ * Every drawing is normalized to a 256×256 black-on-white PNG and stored
+ * through addImage, after the same checks as a submission.
+ */
+
+export type ImportFile = {
+  path: string // as uploaded, e.g. "old/circles/a.png"; directories name the class and quality
+  data: Buffer
+}
+
+export type ImportOptions = {
+  mapping: Record<string, string> // source class -> label; "" leaves the class out
+  quality?: string // for drawings whose path names no quality level; by default the shape analyzer's suggestion
+  dryRun: boolean // check and report without storing anything
+  contributor?: string
+}
+
+export type ImportOutcome = "imported" | "skipped" | "rejected"
+
+export type ImportItem = {
+  source: string // file path, with the entry inside an archive or "#line" for NDJSON
+  outcome: ImportOutcome // in a dry run, "imported" means it would be
+  sourceClass?: string
+  label?: string
+  quality?: string
+  reason?: string // why it was skipped or rejected
+  filePath?: string // where it was stored
+}
+
+export type ImportReport = {
+  dryRun: boolean
+  total: number
+  imported: number
+  skipped: number
+  rejected: number
+  classes: Record<string, { label: string | null; count: number }> // every source class seen; label null when it is not imported
+  items: ImportItem[]
+}
+
+/**
+ * Progress of the most recent import; the report fills in as it runs
+ */
+export type ImportStatus = {
+  running: boolean
+  total: number
+  processed: number
+  startedAt: number
+  finishedAt?: number
+  report: ImportReport
+}
+
+// A drawing found in the upload, loaded only when its turn comes
+type Candidate = {
+  source: string
+  sourceClass: string
+  label: string
+  quality?: string // named by the path
+  load: () => Promise<{ raster: Raster; strokes?: Stroke[] }>
+}
+
+// Uploads larger than this are refused, as is any file in an archive that inflates past it
+export const MAX_IMPORT_BYTES = 256 * 1024 * 1024
+
+// QuickDraw drawings are scaled to fit the canvas inside this margin and drawn with this line width
+const QUICKDRAW_MARGIN = 16
+const QUICKDRAW_LINE_WIDTH = 3
+// Time between points for drawings without timing (the simplified QuickDraw files)
+const QUICKDRAW_POINT_MS = 10
+
+// Drawings imported per tick of the job, between which requests get served
+const BATCH_SIZE = 10
+
+const quickDrawSchema = z.object({
+  word: z.string().min(1),
+  // One [xs, ys] or [xs, ys, times] triple per stroke
+  drawing: z
+    .array(
+      z
+        .array(z.array(z.number().finite()))
+        .min(2)
+        .max(3)
+        .refine((stroke) => stroke.every((values) => values.length === stroke[0].length), "Stroke arrays differ in length"),
+    )
+    .min(1),
+})
+
+declare global {
+  var importJob: ImportStatus | undefined
+}
+
+/**
+ * Class and quality named by a path. The class is the nearest directory that
+ * is not a quality level or, if no label matches that, the file's name up
+ * to the first character that is not a letter (circle_123.png -> circle).
+ */
+function describePath(filePath: string, mapping: Record<string, string>): { sourceClass: string; quality?: string } {
+  const segments = filePath.split("/")
+  const filename = segments.pop()!
+  const qualities = getQualityNames()
+  let quality: string | undefined
+  const folders = segments.filter((segment) => {
+    const level = qualities.find((name) => name.toLowerCase() === segment.toLowerCase())
+    if (level) quality ??= level
+    return !level && segment !== "" && !/\.zip$/i.test(segment)
+  })
+  const fromFolder = folders[folders.length - 1]
+  const fromName = filename.match(/^[a-z]+/i)?.[0]
+  const useName =
+    fromName !== undefined &&
+    (fromFolder === undefined ||
+      (resolveLabel(fromFolder, mapping) === undefined && resolveLabel(fromName, mapping) !== undefined))
+  return { sourceClass: (useName ? fromName : fromFolder) ?? filename, quality }
+}
+
+/**
+ * Label for a source class: the mapping (exact, then ignoring case), else a
+ * class whose name, folder or display name matches ignoring case
+ * @returns "" when the mapping leaves the class out, undefined when nothing matches
+ */
+function resolveLabel(sourceClass: string, mapping: Record<string, string>): string | undefined {
+  if (Object.hasOwn(mapping, sourceClass)) return mapping[sourceClass]
+  const key = sourceClass.toLowerCase()
+  const mapped = Object.entries(mapping).find(([name]) => name.toLowerCase() === key)
+  if (mapped) return mapped[1]
+  return getTaxonomy().classes.find((shapeClass) =>
+    [shapeClass.name, shapeClass.folder, shapeClass.displayName].some((name) => name.toLowerCase() === key),
+  )?.name
+}
+
+/**
+ * Decodes a PNG or JPG of any size into a canvas-sized ink raster: flattened
+ * onto white, inverted if the background is dark (e.g. MNIST-style white on
+ * black), padded to a square and scaled to fit
+ */
+async function decodeBitmap(data: Buffer): Promise<Raster> {
+  const { data: pixels, info } = await sharp(data)
+    .flatten({ background: "#ffffff" })
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const { width, height, channels } = info
+  const ink = new Uint8Array(width * height)
+  for (let i = 0; i < ink.length; i++) ink[i] = 255 - pixels[i * channels]
+
+  let border = 0
+  for (let x = 0; x < width; x++) border += ink[x] + ink[(height - 1) * width + x]
+  for (let y = 0; y < height; y++) border += ink[y * width] + ink[y * width + width - 1]
+  if (border / (2 * (width + height)) > 127) {
+    for (let i = 0; i < ink.length; i++) ink[i] = 255 - ink[i]
+  }
+
+  const side = Math.max(width, height)
+  const square = new Uint8Array(side * side)
+  const left = Math.floor((side - width) / 2)
+  const top = Math.floor((side - height) / 2)
+  for (let y = 0; y < height; y++) {
+    square.set(ink.subarray(y * width, (y + 1) * width), (top + y) * side + left)
+  }
+  const resized = await sharp(square, { raw: { width: side, height: side, channels: 1 } })
+    .resize(CANVAS_SIZE, CANVAS_SIZE)
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer()
+  return { width: CANVAS_SIZE, height: CANVAS_SIZE, data: new Uint8Array(resized) }
+}
+
+/**
+ * Converts a QuickDraw drawing to canvas strokes, scaled to fit inside the
+ * margin and centered. Timings are kept when the drawing has them.
+ */
+function fromQuickDraw(drawing: number[][][]): Stroke[] {
+  const xs = drawing.flatMap((stroke) => stroke[0])
+  const ys = drawing.flatMap((stroke) => stroke[1])
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  const width = Math.max(...xs) - minX
+  const height = Math.max(...ys) - minY
+  const scale = (CANVAS_SIZE - 2 * QUICKDRAW_MARGIN) / Math.max(width, height, 1)
+  const offsetX = (CANVAS_SIZE - width * scale) / 2
+  const offsetY = (CANVAS_SIZE - height * scale) / 2
+  const start = drawing[0][2]?.[0] ?? 0
+
+  let clock = -QUICKDRAW_POINT_MS
+  return drawing.map(([strokeXs, strokeYs, times]) =>
+    strokeXs.map((x, i) => ({
+      x: Math.round((offsetX + (x - minX) * scale) * 100) / 100,
+      y: Math.round((offsetY + (strokeYs[i] - minY) * scale) * 100) / 100,
+      t: times ? Math.max(0, Math.round(times[i] - start)) : (clock += QUICKDRAW_POINT_MS),
+    })),
+  )
+}
+
+/**
+ * Turns an uploaded file into candidates, recursing into archives; files
+ * that cannot be imported at all are recorded straight away
+ */
+function expandFile(
+  filePath: string,
+  load: () => Buffer,
+  mapping: Record<string, string>,
+  addCandidate: (candidate: Omit<Candidate, "label">) => void,
+  record: (item: ImportItem) => void,
+) {
+  const filename = filePath.split("/").pop()!
+  // Metadata that archivers and file managers leave behind
+  if (filename.startsWith(".") || filePath.includes("__MACOSX/")) return
+
+  if (/\.zip$/i.test(filename)) {
+    try {
+      readZip(load(), MAX_IMPORT_BYTES).forEach((entry) => {
+        expandFile(`${filePath}/${entry.name}`, entry.data, mapping, addCandidate, record)
+      })
+    } catch (error) {
+      record({ source: filePath, outcome: "rejected", reason: `Unreadable archive: ${error instanceof Error ? error.message : error}` })
+    }
+  } else if (/\.ndjson$/i.test(filename)) {
+    const { quality } = describePath(filePath, mapping)
+    let lines: string[]
+    try {
+      lines = load().toString("utf-8").split("\n")
+    } catch (error) {
+      record({ source: filePath, outcome: "rejected", reason: `Unreadable file: ${error instanceof Error ? error.message : error}` })
+      return
+    }
+    lines.forEach((line, index) => {
+      if (line.trim() === "") return
+      const source = `${filePath}#${index + 1}`
+      let parsed: z.infer<typeof quickDrawSchema>
+      try {
+        parsed = quickDrawSchema.parse(JSON.parse(line))
+      } catch {
+        record({ source, outcome: "rejected", reason: "Not a QuickDraw drawing" })
+        return
+      }
+      addCandidate({
+        source,
+        sourceClass: parsed.word,
+        quality,
+        load: async () => {
+          const strokes = fromQuickDraw(parsed.drawing)
+          return { raster: renderStrokes(strokes, QUICKDRAW_LINE_WIDTH, CANVAS_SIZE), strokes }
+        },
+      })
+    })
+  } else if (/\.(png|jpe?g)$/i.test(filename)) {
+    addCandidate({ source: filePath, ...describePath(filePath, mapping), load: async () => ({ raster: await decodeBitmap(load()) }) })
+  } else {
+    record({ source: filePath, outcome: "skipped", reason: "Unsupported file type" })
+  }
+}
+
+async function importCandidate(candidate: Candidate, options: ImportOptions, actor?: string): Promise<ImportItem> {
+  const { source, sourceClass, label } = candidate
+  try {
+    const { raster, strokes } = await candidate.load()
+    let quality = candidate.quality ?? options.quality
+    if (!quality) {
+      const qualities = getQualityNames()
+      const metrics = analyzeShape({ strokes, raster }, getExpectedCorners(label))
+      quality = metrics ? suggestQuality(metrics.score, qualities) : qualities[qualities.length - 1]
+    }
+
+    const image = `data:image/png;base64,${encodeInk(raster).toString("base64")}`
+    const issues = checkImage(label, image)
+    const rejections = issues.filter((issue) => issue.action === "reject")
+    if (rejections.length > 0) {
+      return {
+        source,
+        outcome: "rejected",
+        sourceClass,
+        label,
+        quality,
+        reason: rejections.map((issue) => issue.message).join("; "),
+      }
+    }
+    if (options.dryRun) {
+      return { source, outcome: "imported", sourceClass, label, quality }
+    }
+
+    const imageData = await addImage(label, quality, image, {
+      strokes,
+      flags: issues,
+      contributor: options.contributor,
+      importSource: source,
+      actor,
+    })
+    return { source, outcome: "imported", sourceClass, label, quality, filePath: imageData.filePath }
+  } catch (error) {
+    return { source, outcome: "rejected", sourceClass, label, reason: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+export function getImportStatus(): ImportStatus | undefined {
+  return globalThis.importJob
+}
+
+/**
+ * Starts importing the uploaded files: archives and NDJSON files are
+ * expanded up front, classes are mapped to labels, and the drawings are
+ * then normalized, checked and (unless it is a dry run) stored in small
+ * batches on timers
+ * @param actor - Who started the import, for the audit log
+ * @throws ConflictError if an import is already running
+ * @returns The run's status, which keeps updating as it runs
+ */
+export function startImport(files: ImportFile[], options: ImportOptions, actor?: string): ImportStatus {
+  if (globalThis.importJob?.running) {
+    throw new ConflictError("An import is already running")
+  }
+
+  const report: ImportReport = {
+    dryRun: options.dryRun,
+    total: 0,
+    imported: 0,
+    skipped: 0,
+    rejected: 0,
+    // No prototype, so source classes named "constructor" or "__proto__" are counted like any other
+    classes: Object.create(null) as ImportReport["classes"],
+    items: [],
+  }
+  const record = (item: ImportItem) => {
+    report.items.push(item)
+    report[item.outcome]++
+  }
+
+  const pending: Candidate[] = []
+  const addCandidate = (candidate: Omit<Candidate, "label">) => {
+    const label = resolveLabel(candidate.sourceClass, options.mapping)
+    const entry = (report.classes[candidate.sourceClass] ??= { label: label || null, count: 0 })
+    entry.count++
+    if (label) {
+      pending.push({ ...candidate, label })
+    } else {
+      record({
+        source: candidate.source,
+        outcome: "skipped",
+        sourceClass: candidate.sourceClass,
+        reason:
+          label === ""
+            ? `Class "${candidate.sourceClass}" is left out by the mapping`
+            : `No label matches class "${candidate.sourceClass}"; map it to one`,
+      })
+    }
+  }
+  files.forEach((file) => expandFile(file.path, () => file.data, options.mapping, addCandidate, record))
+  report.total = report.items.length + pending.length
+
+  const status: ImportStatus = {
+    running: true,
+    total: report.total,
+    processed: report.items.length,
+    startedAt: Date.now(),
+    report,
+  }
+  globalThis.importJob = status
+  console.log(`[v0] ${options.dryRun ? "Dry-running" : "Starting"} import of ${report.total} drawings from ${files.length} files`)
+
+  const runBatch = async () => {
+    for (const candidate of pending.splice(0, BATCH_SIZE)) {
+      record(await importCandidate(candidate, options, actor))
+      status.processed++
+    }
+
+    if (pending.length > 0) {
+      setTimeout(runBatch, 0).unref()
+    } else {
+      status.running = false
+      status.finishedAt = Date.now()
+      console.log(
+        `[v0] Import ${options.dryRun ? "dry run " : ""}done: ${report.imported} imported, ${report.skipped} skipped, ${report.rejected} rejected`,
+      )
+    }
+  }
+  setTimeout(runBatch, 0).unref()
+  return status
+}
@@ -0,0 +1,125 @@
+import fs from "fs"
+import path from "path"
+import type { ImageData } from "@/lib/storage"
+
+/**
+ * One line of the append-only index file. The latest record for a
+ * filePath wins; a "delete" record removes it.
+ */
+type IndexRecord = { op: "put"; sample: ImageData } | { op: "delete"; filePath: string }
+
+// Kept on local disk rather than in the object store: it is only a cache of the
+// samples' sidecars, rebuilt from the store whenever it is missing
+const INDEX_PATH = path.join(process.cwd(), "data", "index.jsonl")
+
+declare global {
+  var sampleIndex: Map<string, ImageData> | undefined
+}
+
+function appendRecord(record: IndexRecord) {
+  fs.mkdirSync(path.dirname(INDEX_PATH), { recursive: true })
+  fs.appendFileSync(INDEX_PATH, JSON.stringify(record) + "\n")
+}
+
+/**
+ * Rewrites the index file with one "put" record per sample
+ */
+function writeSnapshot(samples: Iterable<ImageData>) {
+  fs.mkdirSync(path.dirname(INDEX_PATH), { recursive: true })
+  const lines: string[] = []
+  for (const sample of samples) {
+    lines.push(JSON.stringify({ op: "put", sample } satisfies IndexRecord))
+  }
+  const tempPath = `${INDEX_PATH}.tmp`
+  fs.writeFileSync(tempPath, lines.length > 0 ? lines.join("\n") + "\n" : "")
+  fs.renameSync(tempPath, INDEX_PATH)
+}
+
+/**
+ * Strips fields that are never persisted in the index
+ */
+function toIndexEntry(sample: ImageData): ImageData {
+  return { ...sample, image: "" }
+}
+
+/**
+ * Loads the index from data/index.jsonl, or starts building it with `scan`
+ * when no index file exists yet (the index is empty until the scan is done).
+ * Replays the log and compacts it when most of its records are superseded.
+ * @param scan - Lists the stored samples and describes every one found
+ */
+export function openIndex(scan: () => Promise<ImageData[]>): Map<string, ImageData> {
+  if (globalThis.sampleIndex) return globalThis.sampleIndex
+
+  if (!fs.existsSync(INDEX_PATH)) {
+    console.log("[v0] No metadata index found, building it from storage")
+    globalThis.sampleIndex = new Map()
+    rebuildIndex(scan).catch((error) => console.error("[v0] Error building metadata index:", error))
+    return globalThis.sampleIndex
+  }
+
+  const index = new Map<string, ImageData>()
+  const lines = fs.readFileSync(INDEX_PATH, "utf-8").split("\n").filter(Boolean)
+  lines.forEach((line, lineNumber) => {
+    try {
+      const record = JSON.parse(line) as IndexRecord
+      if (record.op === "put") {
+        index.set(record.sample.filePath, record.sample)
+      } else if (record.op === "delete") {
+        index.delete(record.filePath)
+      }
+    } catch (error) {
+      console.error(`[v0] Skipping corrupt index line ${lineNumber + 1}:`, error)
+    }
+  })
+
+  if (lines.length > index.size * 2 + 100) {
+    console.log(`[v0] Compacting metadata index (${lines.length} records, ${index.size} samples)`)
+    writeSnapshot(index.values())
+  }
+
+  globalThis.sampleIndex = index
+  console.log(`[v0] Loaded ${index.size} images from metadata index`)
+  return index
+}
+
+/**
+ * Discards the current index and rebuilds it from what `scan` finds in storage
+ */
+export async function rebuildIndex(scan: () => Promise<ImageData[]>): Promise<Map<string, ImageData>> {
+  const index = new Map<string, ImageData>()
+  const samples = await scan()
+  samples.forEach((sample) => index.set(sample.filePath, toIndexEntry(sample)))
+  writeSnapshot(index.values())
+  globalThis.sampleIndex = index
+  console.log(`[v0] Rebuilt metadata index with ${index.size} images`)
+  return index
+}
+
+/**
+ * Records a new or changed sample
+ */
+export function putSample(sample: ImageData) {
+  const entry = toIndexEntry(sample)
+  appendRecord({ op: "put", sample: entry })
+  globalThis.sampleIndex!.set(entry.filePath, entry)
+}
+
+/**
+ * Records that a sample no longer exists
+ * @returns true if the sample was in the index
+ */
+export function removeSample(filePath: string): boolean {
+  if (!globalThis.sampleIndex!.has(filePath)) return false
+  appendRecord({ op: "delete", filePath })
+  globalThis.sampleIndex!.delete(filePath)
+  return true
+}
+
+export function getSample(filePath: string): ImageData | undefined {
+  return globalThis.sampleIndex!.get(filePath)
+}
+
+export function getSamples(): ImageData[] {
+  return [...globalThis.sampleIndex!.values()]
+}
@@ -0,0 +1,425 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+
+/**
+ * An object's contents and when it was last written
+ */
+export type StoredObject = {
+  data: Buffer
+  modifiedAt: number // epoch milliseconds
+}
+
+export type ObjectInfo = {
+  key: string
+  size: number
+  modifiedAt: number
+}
+
+/**
+ * Where sample files are kept. Keys are slash-separated paths such as
+ * "shapes/circles/perfect/circle_123.png"; there are no directories, only
+ * key prefixes.
+ */
+export type ObjectStore = {
+  put(key: string, data: Buffer): Promise<void>
+  // undefined if there is no such object
+  get(key: string): Promise<StoredObject | undefined>
+  // Every object whose key starts with `prefix`, in no particular order
+  list(prefix: string): Promise<ObjectInfo[]>
+  // false if there was no object at `from`; overwrites `to`
+  move(from: string, to: string): Promise<boolean>
+  // Does nothing if there is no such object
+  delete(key: string): Promise<void>
+  // Calls `onChange` with the key of each object added, changed or removed under
+  // `prefix` by anything, including other processes. Only some backends can.
+  watch?(prefix: string, onChange: (key: string) => void): void
+}
+
+const storageConfigSchema = z.object({
+  backend: z.enum(["filesystem", "s3"]).default("filesystem"),
+  filesystem: z
+    .object({
+      // Relative to the working directory; must not be inside public/
+      directory: z.string().min(1).default("data"),
+    })
+    .default({}),
+  s3: z
+    .object({
+      endpoint: z.string().url().default("http://localhost:9000"),
+      region: z.string().min(1).default("us-east-1"),
+      bucket: z.string().min(1).default("shapes"),
+      prefix: z.string().default(""), // prepended to every key, e.g. "shapes-app/"
+      // Path-style URLs (endpoint/bucket/key), as MinIO expects; false uses bucket.endpoint/key
+      forcePathStyle: z.boolean().default(true),
+    })
+    .default({}),
+})
+
+export type StorageConfig = z.infer<typeof storageConfigSchema>
+
+export type S3Credentials = {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "storage.json")
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".json": "application/json",
+}
+
+declare global {
+  var objectStore: ObjectStore | undefined
+}
+
+/**
+ * Which backend holds the samples and how to reach it, from
+ * config/storage.json. S3 credentials come from the environment instead.
+ */
+export function getStorageConfig(): StorageConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return storageConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading storage config, using defaults:", error)
+  }
+  return storageConfigSchema.parse({})
+}
+
+/**
+ * The content type a key is served with, from its extension
+ */
+export function getContentType(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream"
+}
+
+/**
+ * The configured store, created on first use
+ * @throws Error if the S3 backend is selected but no credentials are set
+ */
+export function getObjectStore(): ObjectStore {
+  if (globalThis.objectStore) return globalThis.objectStore
+
+  const config = getStorageConfig()
+  if (config.backend === "s3") {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error("The S3 storage backend needs S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+    }
+    const sessionToken = process.env.S3_SESSION_TOKEN || process.env.AWS_SESSION_TOKEN || undefined
+    globalThis.objectStore = createS3Store(config.s3, { accessKeyId, secretAccessKey, sessionToken })
+    console.log(`[v0] Storing samples in bucket ${config.s3.bucket} at ${config.s3.endpoint}`)
+  } else {
+    const directory = path.resolve(process.cwd(), config.filesystem.directory)
+    globalThis.objectStore = createFilesystemStore(directory)
+    console.log("[v0] Storing samples in", directory)
+  }
+  return globalThis.objectStore
+}
+
+/**
+ * A store that keeps each object as a file under `directory`, at the path its key
+ * names (so "shapes/circles/perfect/circle_123.png" is
+ * {directory}/shapes/circles/perfect/circle_123.png)
+ */
+export function createFilesystemStore(directory: string): ObjectStore {
+  const root = path.resolve(directory)
+  const toFile = (key: string) => {
+    const file = path.resolve(root, ...key.split("/"))
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`)
+    }
+    return file
+  }
+
+  // Removes directories left empty by a move or delete, up to but not including
+  // the key's first segment (which may be watched)
+  const pruneEmptyDirectories = (key: string) => {
+    const top = toFile(key.split("/")[0])
+    let dir = path.dirname(toFile(key))
+    while (dir.startsWith(top + path.sep)) {
+      try {
+        fs.rmdirSync(dir)
+      } catch {
+        return // not empty, or already gone
+      }
+      dir = path.dirname(dir)
+    }
+  }
+
+  const walk = (dir: string, found: ObjectInfo[]) => {
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+      throw error
+    }
+    entries.forEach((entry) => {
+      const file = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        walk(file, found)
+      } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+        const stats = fs.statSync(file)
+        const key = path.relative(root, file).split(path.sep).join("/")
+        found.push({ key, size: stats.size, modifiedAt: stats.mtimeMs })
+      }
+    })
+  }
+
+  return {
+    async put(key, data) {
+      const file = toFile(key)
+      await fs.promises.mkdir(path.dirname(file), { recursive: true })
+      // Write then rename, so readers and the watcher never see half a file; the temp
+      // name is unique per write, so overlapping puts to one key don't take each other's
+      const tempFile = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`
+      await fs.promises.writeFile(tempFile, data)
+      await fs.promises.rename(tempFile, file)
+    },
+
+    async get(key) {
+      const file = toFile(key)
+      try {
+        const [data, stats] = await Promise.all([fs.promises.readFile(file), fs.promises.stat(file)])
+        return { data, modifiedAt: stats.mtimeMs }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+        throw error
+      }
+    },
+
+    async list(prefix) {
+      const found: ObjectInfo[] = []
+      const dir = prefix.includes("/") ? toFile(prefix.substring(0, prefix.lastIndexOf("/"))) : root
+      walk(dir, found)
+      return found.filter((object) => object.key.startsWith(prefix))
+    },
+
+    async move(from, to) {
+      const fromPath = toFile(from)
+      const toPath = toFile(to)
+      if (!fs.existsSync(fromPath)) return false
+      await fs.promises.mkdir(path.dirname(toPath), { recursive: true })
+      try {
+        await fs.promises.rename(fromPath, toPath)
+      } catch (error) {
+        // Different filesystems (e.g. a mounted volume): copy, then remove the original
+        if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error
+        await fs.promises.copyFile(fromPath, toPath)
+        await fs.promises.unlink(fromPath)
+      }
+      pruneEmptyDirectories(from)
+      return true
+    },
+
+    async delete(key) {
+      await fs.promises.rm(toFile(key), { force: true })
+      pruneEmptyDirectories(key)
+    },
+
+    watch(prefix, onChange) {
+      const dir = toFile(prefix.replace(/\/+$/, ""))
+      fs.mkdirSync(dir, { recursive: true })
+      const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+        if (!filename) return
+        onChange(`${prefix.replace(/\/+$/, "")}/${filename.toString().split(path.sep).join("/")}`)
+      })
+      watcher.unref()
+    },
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex")
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest()
+}
+
+/**
+ * Percent-encodes a string the way AWS signatures expect: everything except
+ * A-Z, a-z, 0-9, "-", ".", "_" and "~"
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * Adds AWS Signature Version 4 headers (x-amz-date, x-amz-content-sha256 and
+ * Authorization) to a request for an S3-compatible service. The URL's path
+ * must already be encoded.
+ * @param headers - Headers to sign besides host; the signing headers are added to it
+ * @param payloadHash - Hex SHA-256 of the body
+ * @param now - Signing time, for reproducible signatures
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  credentials: S3Credentials,
+  region: string,
+  now: Date = new Date(),
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+  const dateStamp = amzDate.substring(0, 8)
+  headers["x-amz-date"] = amzDate
+  headers["x-amz-content-sha256"] = payloadHash
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken
+  }
+
+  const signed: Record<string, string> = { host: url.host }
+  Object.entries(headers).forEach(([name, value]) => {
+    signed[name.toLowerCase()] = value.trim().replace(/\s+/g, " ")
+  })
+  const signedNames = Object.keys(signed).sort()
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&")
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    signedNames.map((name) => `${name}:${signed[name]}\n`).join(""),
+    signedNames.join(";"),
+    payloadHash,
+  ].join("\n")
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), "s3"), "aws4_request")
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedNames.join(";")}, Signature=${signature}`
+  return headers
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+}
+
+function readXmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+/**
+ * A store backed by a bucket on S3 or an S3-compatible service such as
+ * MinIO, signed with Signature Version 4. Objects are moved by copying and
+ * then deleting the original, since S3 has no rename.
+ */
+export function createS3Store(config: StorageConfig["s3"], credentials: S3Credentials): ObjectStore {
+  const endpoint = new URL(config.endpoint)
+  const basePath = endpoint.pathname.replace(/\/+$/, "")
+
+  const toUrl = (key?: string) => {
+    const objectPath = key === undefined ? "" : `/${`${config.prefix}${key}`.split("/").map(encodeRfc3986).join("/")}`
+    return config.forcePathStyle
+      ? new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${encodeRfc3986(config.bucket)}${objectPath}`)
+      : new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}${basePath}${objectPath || "/"}`)
+  }
+
+  const send = (method: string, url: URL, headers: Record<string, string> = {}, body?: Buffer) =>
+    fetch(url, {
+      method,
+      headers: signS3Request(method, url, headers, sha256Hex(body ?? ""), credentials, config.region),
+      body: body ? new Uint8Array(body) : undefined,
+    })
+
+  const fail = async (response: Response, action: string): Promise<never> => {
+    const text = await response.text().catch(() => "")
+    const code = readXmlTag(text, "Code")
+    throw new Error(`S3 ${action} failed: ${response.status}${code ? ` ${code}` : ""}`)
+  }
+
+  const remove = async (key: string) => {
+    const response = await send("DELETE", toUrl(key))
+    // S3 answers 204 whether or not the object existed; some compatible services use 404
+    if (!response.ok && response.status !== 404) await fail(response, `DELETE ${key}`)
+    await response.body?.cancel()
+  }
+
+  return {
+    async put(key, data) {
+      const response = await send("PUT", toUrl(key), { "content-type": getContentType(key) }, data)
+      if (!response.ok) await fail(response, `PUT ${key}`)
+      await response.body?.cancel()
+    },
+
+    async get(key) {
+      const response = await send("GET", toUrl(key))
+      if (response.status === 404) {
+        await response.body?.cancel()
+        return undefined
+      }
+      if (!response.ok) await fail(response, `GET ${key}`)
+      const lastModified = response.headers.get("last-modified")
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        modifiedAt: lastModified ? Date.parse(lastModified) : Date.now(),
+      }
+    },
+
+    async list(prefix) {
+      const found: ObjectInfo[] = []
+      let continuationToken: string | undefined
+      do {
+        const url = toUrl()
+        url.searchParams.set("list-type", "2")
+        url.searchParams.set("prefix", `${config.prefix}${prefix}`)
+        if (continuationToken) url.searchParams.set("continuation-token", continuationToken)
+        const response = await send("GET", url)
+        if (!response.ok) await fail(response, `LIST ${prefix}`)
+        const xml = await response.text()
+
+        for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+          const key = readXmlTag(contents, "Key")
+          if (!key) continue
+          found.push({
+            key: key.substring(config.prefix.length),
+            size: Number(readXmlTag(contents, "Size") ?? 0),
+            modifiedAt: Date.parse(readXmlTag(contents, "LastModified") ?? "") || 0,
+          })
+        }
+        continuationToken = readXmlTag(xml, "IsTruncated") === "true" ? readXmlTag(xml, "NextContinuationToken") : undefined
+      } while (continuationToken)
+      return found
+    },
+
+    async move(from, to) {
+      const source = `/${config.bucket}/${`${config.prefix}${from}`.split("/").map(encodeRfc3986).join("/")}`
+      const response = await send("PUT", toUrl(to), { "x-amz-copy-source": source })
+      // A copy can fail after the 200 status has been sent, with an error document as the body
+      const text = await response.text()
+      if (response.status === 404 || readXmlTag(text, "Code") === "NoSuchKey") return false
+      if (!response.ok || text.includes("<Error>")) {
+        throw new Error(`S3 COPY ${from} -> ${to} failed: ${response.status} ${readXmlTag(text, "Code") ?? ""}`.trim())
+      }
+      await remove(from)
+      return true
+    },
+
+    delete: remove,
+  }
+}
@@ -0,0 +1,124 @@
+import { PNG } from "pngjs"
+import type { Stroke } from "@/lib/strokes"
+
+/**
+ * Single-channel image where each byte is ink intensity
+ * (0 = white paper, 255 = solid black ink)
+ */
+export type Raster = {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/**
+ * Reads the dimensions from a PNG's header without decoding it
+ * @returns undefined if the buffer does not start with a PNG signature and IHDR chunk
+ */
+export function readPngHeader(buffer: Buffer): { width: number; height: number } | undefined {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined
+  if (buffer.toString("ascii", 12, 16) !== "IHDR") return undefined
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+}
+
+/**
+ * Decodes a PNG into an ink raster, compositing transparency over white
+ * @param buffer - PNG file contents
+ */
+export function decodeInk(buffer: Buffer): Raster {
+  const png = PNG.sync.read(buffer)
+  const data = new Uint8Array(png.width * png.height)
+  for (let i = 0; i < data.length; i++) {
+    const r = png.data[i * 4]
+    const g = png.data[i * 4 + 1]
+    const b = png.data[i * 4 + 2]
+    const a = png.data[i * 4 + 3] / 255
+    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) * a + 255 * (1 - a)
+    data[i] = Math.round(255 - luminance)
+  }
+  return { width: png.width, height: png.height, data }
+}
+
+/**
+ * Resizes a raster by area averaging, which keeps thin strokes visible when
+ * shrinking (e.g. 256×256 down to 28×28)
+ */
+export function resizeRaster(raster: Raster, width: number, height: number): Raster {
+  const data = new Uint8Array(width * height)
+  const scaleX = raster.width / width
+  const scaleY = raster.height / height
+
+  for (let y = 0; y < height; y++) {
+    const y0 = y * scaleY
+    const y1 = y0 + scaleY
+    for (let x = 0; x < width; x++) {
+      const x0 = x * scaleX
+      const x1 = x0 + scaleX
+      let sum = 0
+      let area = 0
+      for (let sy = Math.floor(y0); sy < Math.min(Math.ceil(y1), raster.height); sy++) {
+        const coverY = Math.min(y1, sy + 1) - Math.max(y0, sy)
+        for (let sx = Math.floor(x0); sx < Math.min(Math.ceil(x1), raster.width); sx++) {
+          const coverX = Math.min(x1, sx + 1) - Math.max(x0, sx)
+          const weight = coverX * coverY
+          sum += raster.data[sy * raster.width + sx] * weight
+          area += weight
+        }
+      }
+      data[y * width + x] = area > 0 ? Math.round(sum / area) : 0
+    }
+  }
+  return { width, height, data }
+}
+
+/**
+ * Encodes an ink raster as an opaque grayscale PNG, black ink on white
+ */
+export function encodeInk(raster: Raster): Buffer {
+  const png = new PNG({ width: raster.width, height: raster.height })
+  for (let i = 0; i < raster.data.length; i++) {
+    const value = 255 - raster.data[i]
+    png.data[i * 4] = value
+    png.data[i * 4 + 1] = value
+    png.data[i * 4 + 2] = value
+    png.data[i * 4 + 3] = 255
+  }
+  return PNG.sync.write(png, { colorType: 0 })
+}
+
+/**
+ * Draws strokes as anti-aliased round-capped lines of the given width
+ */
+export function renderStrokes(strokes: Stroke[], lineWidth: number, size: number): Raster {
+  const data = new Uint8Array(size * size)
+  const half = lineWidth / 2
+
+  const drawSegment = (ax: number, ay: number, bx: number, by: number) => {
+    const minX = Math.max(0, Math.floor(Math.min(ax, bx) - half - 1))
+    const maxX = Math.min(size - 1, Math.ceil(Math.max(ax, bx) + half + 1))
+    const minY = Math.max(0, Math.floor(Math.min(ay, by) - half - 1))
+    const maxY = Math.min(size - 1, Math.ceil(Math.max(ay, by) + half + 1))
+    const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5
+        const py = y + 0.5
+        const t = lengthSquared > 0 ? Math.min(1, Math.max(0, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared)) : 0
+        const distance = Math.hypot(px - (ax + t * (bx - ax)), py - (ay + t * (by - ay)))
+        const coverage = Math.min(1, Math.max(0, half + 0.5 - distance))
+        const i = y * size + x
+        data[i] = Math.max(data[i], Math.round(coverage * 255))
+      }
+    }
+  }
+
+  strokes.forEach((stroke) => {
+    if (stroke.length === 1) drawSegment(stroke[0].x, stroke[0].y, stroke[0].x, stroke[0].y)
+    for (let i = 1; i < stroke.length; i++) {
+      drawSegment(stroke[i - 1].x, stroke[i - 1].y, stroke[i].x, stroke[i].y)
+    }
+  })
+  return { width: size, height: size, data }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import { getAgreementReport, getConsensus, isOwnSample, type ReviewConfig } from "@/lib/reviews"
+import type { ImageData } from "@/lib/storage"
+import { recordVote, type Vote } from "@/lib/votes"
+
+const config: ReviewConfig = { votesPerSample: 3, maxVotesPerSample: 5, minVotes: 2 }
+
+function makeVotes(...qualities: string[]): Vote[] {
+  return qualities.map((quality, i) => ({ filePath: "shapes/circles/perfect/a.png", reviewer: `r${i}`, quality, timestamp: i }))
+}
+
+function makeImage(name: string, quality: string): ImageData {
+  const filename = `${name}.png`
+  return { filename, label: "circle", quality, image: "", timestamp: 0, filePath: `shapes/circles/${quality}/${filename}` }
+}
+
+describe("getConsensus", () => {
+  it("picks the quality most reviewers chose", () => {
+    const consensus = getConsensus(makeVotes("perfect", "perfect", "medium"), config)
+    expect(consensus).toEqual({ votes: 3, byQuality: { perfect: 2, medium: 1 }, quality: "perfect", agreement: 2 / 3 })
+  })
+
+  it("has no consensus on a tie", () => {
+    const consensus = getConsensus(makeVotes("perfect", "medium"), config)
+    expect(consensus.quality).toBeUndefined()
+    expect(consensus.agreement).toBe(0.5)
+  })
+
+  it("has no consensus below minVotes", () => {
+    expect(getConsensus(makeVotes("perfect"), config).quality).toBeUndefined()
+    expect(getConsensus(makeVotes("perfect"), { ...config, minVotes: 1 }).quality).toBe("perfect")
+  })
+
+  it("reports zero agreement without votes", () => {
+    expect(getConsensus([], config)).toEqual({ votes: 0, byQuality: {}, agreement: 0 })
+  })
+})
+
+describe("isOwnSample", () => {
+  it("goes by the submitting principal, not the typed contributor name", () => {
+    const image = { ...makeImage("own", "perfect"), contributor: "alice", submittedBy: "bob" }
+    expect(isOwnSample(image, "bob")).toBe(true)
+    expect(isOwnSample(image, "alice")).toBe(false)
+    expect(isOwnSample(makeImage("anonymous", "perfect"), "bob")).toBe(false)
+  })
+})
+
+describe("getAgreementReport", () => {
+  it("has no kappas before anyone has voted", () => {
+    const report = getAgreementReport([makeImage("unrated", "perfect")])
+    expect(report).toEqual({
+      totalVotes: 0,
+      reviewedSamples: 0,
+      consensusSamples: 0,
+      fleissKappa: null,
+      selfReportKappa: null,
+      reviewers: [],
+    })
+  })
+
+  it("computes Fleiss' and Cohen's kappa", () => {
+    const images = [
+      makeImage("a", "perfect"),
+      makeImage("b", "medium"),
+      makeImage("c", "medium"),
+      makeImage("d", "perfect"),
+    ]
+    const ratings: [ImageData, string[]][] = [
+      [images[0], ["perfect", "perfect", "perfect"]],
+      [images[1], ["perfect", "perfect", "medium"]],
+      [images[2], ["medium", "medium"]],
+      [images[3], ["medium", "perfect"]],
+    ]
+    ratings.forEach(([image, qualities]) =>
+      qualities.forEach((quality, i) => recordVote(image.filePath, `reviewer${i + 1}`, quality)),
+    )
+
+    const report = getAgreementReport(images)
+    expect(report.totalVotes).toBe(10)
+    expect(report.reviewedSamples).toBe(4)
+    // d is tied
+    expect(report.consensusSamples).toBe(3)
+    // Observed agreement (1 + 1/3 + 1 + 0) / 4 = 7/12; expected 0.6² + 0.4² = 0.52
+    expect(report.fleissKappa).toBeCloseTo(19 / 144, 10)
+    // Self-reported against consensus: (perfect, perfect), (medium, perfect), (medium, medium);
+    // observed 2/3, expected 1/3 · 2/3 + 2/3 · 1/3 = 4/9
+    expect(report.selfReportKappa).toBeCloseTo(0.4, 10)
+    expect(report.reviewers).toEqual([
+      { reviewer: "reviewer1", votes: 4, agreementWithConsensus: 1 },
+      { reviewer: "reviewer2", votes: 4, agreementWithConsensus: 1 },
+      { reviewer: "reviewer3", votes: 2, agreementWithConsensus: 0.5 },
+    ])
+  })
+
+  it("leaves Fleiss' kappa undefined when every vote is the same quality", () => {
+    const images = [makeImage("e", "perfect"), makeImage("f", "perfect")]
+    images.forEach((image) => ["x", "y"].forEach((reviewer) => recordVote(image.filePath, reviewer, "perfect")))
+    expect(getAgreementReport(images).fleissKappa).toBeNull()
+  })
+})
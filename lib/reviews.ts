@@ -0,0 +1,286 @@
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { getAllImages, type ImageData } from "@/lib/storage"
+import { getQualityNames } from "@/lib/taxonomy"
+import { getVotes, type Vote } from "@/lib/votes"
+import type { ExportImage } from "@/lib/dataset"
+
+/**
+ * How many independent ratings to collect, from config/review.json
+ */
+export type ReviewConfig = {
+  votesPerSample: number // ratings wanted for every sample
+  maxVotesPerSample: number // keep asking past votesPerSample, up to this many, while the ratings are tied
+  minVotes: number // ratings needed before a consensus is reported
+}
+
+/**
+ * Where a sample's ratings stand. The consensus is the quality most
+ * reviewers chose; ties have no consensus until more votes come in.
+ */
+export type SampleConsensus = {
+  votes: number
+  byQuality: Record<string, number>
+  quality?: string // consensus quality, once there are minVotes and a clear winner
+  agreement: number // share of votes for the most popular quality, 0 when there are none
+}
+
+export type ReviewerSummary = {
+  reviewer: string
+  votes: number
+  agreementWithConsensus: number | null // share of their votes matching the consensus, over samples that have one
+}
+
+export type AgreementReport = {
+  totalVotes: number
+  reviewedSamples: number // samples with at least one vote
+  consensusSamples: number
+  fleissKappa: number | null // agreement between reviewers, over samples with two or more votes
+  selfReportKappa: number | null // Cohen's kappa of the drawer's own grade against the consensus
+  reviewers: ReviewerSummary[]
+}
+
+/**
+ * What the review page is shown: enough to rate the drawing, but nothing
+ * that reveals its self-reported quality (not even the file path, which
+ * contains the quality folder)
+ */
+export type ReviewItem = {
+  id: string
+  label: string
+  imageUrl: string
+  votes: number
+  votesWanted: number
+}
+
+const reviewConfigSchema = z
+  .object({
+    votesPerSample: z.number().int().min(1).default(3),
+    maxVotesPerSample: z.number().int().min(1).default(5),
+    minVotes: z.number().int().min(1).default(2),
+  })
+  .refine((config) => config.maxVotesPerSample >= config.votesPerSample, "maxVotesPerSample must not be below votesPerSample")
+
+const DEFAULT_CONFIG: ReviewConfig = reviewConfigSchema.parse({})
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "review.json")
+
+export function getReviewConfig(): ReviewConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return reviewConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading review config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+/**
+ * Opaque id for a sample that doesn't give away its path
+ */
+export function getReviewId(filePath: string): string {
+  return crypto.createHash("sha256").update(filePath).digest("hex").slice(0, 16)
+}
+
+export function findSampleByReviewId(id: string, images: ImageData[] = getAllImages()): ImageData | undefined {
+  return images.find((image) => getReviewId(image.filePath) === id)
+}
+
+export function getConsensus(votes: Vote[], config: ReviewConfig = getReviewConfig()): SampleConsensus {
+  const byQuality: Record<string, number> = {}
+  votes.forEach((vote) => {
+    byQuality[vote.quality] = (byQuality[vote.quality] ?? 0) + 1
+  })
+
+  const ranked = Object.entries(byQuality).sort(([, a], [, b]) => b - a)
+  const [top, runnerUp] = ranked
+  const consensus: SampleConsensus = { votes: votes.length, byQuality, agreement: top ? top[1] / votes.length : 0 }
+  if (top && votes.length >= config.minVotes && (!runnerUp || runnerUp[1] < top[1])) {
+    consensus.quality = top[0]
+  }
+  return consensus
+}
+
+function needsReview(consensus: SampleConsensus, config: ReviewConfig): boolean {
+  if (consensus.votes < config.votesPerSample) return true
+  return consensus.quality === undefined && consensus.votes < config.maxVotesPerSample
+}
+
+/**
+ * Whether a reviewer stored the sample themselves. Decided by the principal
+ * that submitted it, not the contributor name, which the drawer types freely.
+ */
+export function isOwnSample(image: ImageData, reviewer: string): boolean {
+  return image.submittedBy === reviewer
+}
+
+/**
+ * Picks a sample for a reviewer to rate: one they haven't rated or drawn
+ * themselves, with as few ratings as possible, chosen at random among those
+ * so reviewers working at the same time see different drawings
+ * @param skip - Review ids the reviewer passed on
+ */
+export function getNextReviewItem(
+  reviewer: string,
+  skip: string[] = [],
+  images: ImageData[] = getAllImages(),
+): ReviewItem | undefined {
+  const config = getReviewConfig()
+  const skipped = new Set(skip)
+
+  let fewest = Infinity
+  let candidates: { image: ImageData; votes: number }[] = []
+  images.forEach((image) => {
+    if (isOwnSample(image, reviewer) || skipped.has(getReviewId(image.filePath))) return
+    const votes = getVotes(image.filePath)
+    if (votes.some((vote) => vote.reviewer === reviewer)) return
+    if (!needsReview(getConsensus(votes, config), config)) return
+
+    if (votes.length < fewest) {
+      fewest = votes.length
+      candidates = []
+    }
+    if (votes.length === fewest) {
+      candidates.push({ image, votes: votes.length })
+    }
+  })
+
+  if (candidates.length === 0) return undefined
+  const { image, votes } = candidates[Math.floor(Math.random() * candidates.length)]
+  const id = getReviewId(image.filePath)
+  return {
+    id,
+    label: image.label,
+    imageUrl: `/api/review/${id}/image`,
+    votes,
+    votesWanted: Math.max(config.votesPerSample, votes + 1),
+  }
+}
+
+/**
+ * Fleiss' kappa for a varying number of raters per sample
+ * @param counts - For each sample, how many raters chose each category
+ */
+function fleissKappa(counts: Record<string, number>[]): number | null {
+  const rated = counts
+    .map((byCategory) => ({ byCategory, raters: Object.values(byCategory).reduce((sum, n) => sum + n, 0) }))
+    .filter(({ raters }) => raters >= 2)
+  if (rated.length === 0) return null
+
+  const observed =
+    rated.reduce(
+      (sum, { byCategory, raters }) =>
+        sum + Object.values(byCategory).reduce((pairs, n) => pairs + n * (n - 1), 0) / (raters * (raters - 1)),
+      0,
+    ) / rated.length
+
+  const totals: Record<string, number> = {}
+  let allRatings = 0
+  rated.forEach(({ byCategory }) => {
+    Object.entries(byCategory).forEach(([category, n]) => {
+      totals[category] = (totals[category] ?? 0) + n
+      allRatings += n
+    })
+  })
+  const expected = Object.values(totals).reduce((sum, n) => sum + (n / allRatings) ** 2, 0)
+  return expected === 1 ? null : (observed - expected) / (1 - expected)
+}
+
+/**
+ * Cohen's kappa between two raters' labels for the same items
+ */
+function cohenKappa(pairs: [string, string][]): number | null {
+  if (pairs.length === 0) return null
+  const observed = pairs.filter(([a, b]) => a === b).length / pairs.length
+
+  const countsA: Record<string, number> = {}
+  const countsB: Record<string, number> = {}
+  pairs.forEach(([a, b]) => {
+    countsA[a] = (countsA[a] ?? 0) + 1
+    countsB[b] = (countsB[b] ?? 0) + 1
+  })
+  const expected = Object.keys(countsA).reduce(
+    (sum, category) => sum + (countsA[category] / pairs.length) * ((countsB[category] ?? 0) / pairs.length),
+    0,
+  )
+  return expected === 1 ? null : (observed - expected) / (1 - expected)
+}
+
+/**
+ * How much reviewers agree with each other, and how well the drawers' own
+ * grades hold up against the consensus
+ */
+export function getAgreementReport(images: ImageData[] = getAllImages()): AgreementReport {
+  const config = getReviewConfig()
+  const counts: Record<string, number>[] = []
+  const selfVsConsensus: [string, string][] = []
+  const reviewers = new Map<string, { votes: number; compared: number; agreed: number }>()
+  let totalVotes = 0
+
+  images.forEach((image) => {
+    const votes = getVotes(image.filePath)
+    if (votes.length === 0) return
+    const consensus = getConsensus(votes, config)
+    counts.push(consensus.byQuality)
+    totalVotes += votes.length
+    if (consensus.quality) {
+      selfVsConsensus.push([image.quality, consensus.quality])
+    }
+
+    votes.forEach((vote) => {
+      const entry = reviewers.get(vote.reviewer) ?? { votes: 0, compared: 0, agreed: 0 }
+      entry.votes++
+      if (consensus.quality) {
+        entry.compared++
+        if (vote.quality === consensus.quality) entry.agreed++
+      }
+      reviewers.set(vote.reviewer, entry)
+    })
+  })
+
+  return {
+    totalVotes,
+    reviewedSamples: counts.length,
+    consensusSamples: selfVsConsensus.length,
+    fleissKappa: fleissKappa(counts),
+    selfReportKappa: cohenKappa(selfVsConsensus),
+    reviewers: [...reviewers.entries()]
+      .map(([reviewer, { votes, compared, agreed }]) => ({
+        reviewer,
+        votes,
+        agreementWithConsensus: compared > 0 ? agreed / compared : null,
+      }))
+      .sort((a, b) => b.votes - a.votes),
+  }
+}
+
+/**
+ * Which quality to export a sample under:
+ * - "self": the quality the drawer picked
+ * - "consensus": the reviewers' consensus, falling back to the drawer's pick
+ * - "consensus-only": the consensus; samples without one are left out
+ */
+export const QUALITY_SOURCES = ["self", "consensus", "consensus-only"] as const
+
+export type QualitySource = (typeof QUALITY_SOURCES)[number]
+
+/**
+ * Replaces each sample's quality according to `source`. With a consensus
+ * source the drawer's grade is kept as `reportedQuality`, so exports can
+ * show both.
+ */
+export function applyQualitySource(images: ImageData[], source: QualitySource): ExportImage[] {
+  if (source === "self") return images
+
+  const config = getReviewConfig()
+  const qualities = getQualityNames()
+  return images.flatMap((image) => {
+    const reported = { ...image, reportedQuality: image.quality }
+    const consensus = getConsensus(getVotes(image.filePath), config).quality
+    if (consensus && qualities.includes(consensus)) return [{ ...reported, quality: consensus }]
+    return source === "consensus" ? [reported] : []
+  })
+}
@@ -0,0 +1,265 @@
+import type { Raster } from "@/lib/raster"
+import type { Stroke } from "@/lib/strokes"
+
+export type ShapeMetrics = {
+  source: "strokes" | "raster"
+  circularity: number // 4πA/P² of the convex hull (1 = circle, 0.785 = square, 0.605 = triangle)
+  radiusVariance: number // coefficient of variation of the distance from the centroid
+  closureGap: number // largest empty angular sector around the centroid, as a fraction of a full turn
+  cornerCount: number // corners of the simplified convex hull
+  angleDeviation: number // mean |interior angle - regular polygon angle| in degrees
+  sideDeviation: number // coefficient of variation of the side lengths
+  score: number // 0..1 agreement with the ideal shape for the label (1 = ideal)
+}
+
+type Point = { x: number; y: number }
+
+// Ink intensity above which a raster pixel counts as part of the drawing
+const INK_THRESHOLD = 64
+// Resolution of the angular coverage histogram used for the closure gap
+const ANGLE_BINS = 72
+
+/**
+ * Interpolates stroke points so consecutive samples are at most 1px apart;
+ * fast pen movement otherwise leaves gaps in the angular coverage
+ */
+function densifyStrokes(strokes: Stroke[]): Point[] {
+  const points: Point[] = []
+  strokes.forEach((stroke) => {
+    stroke.forEach((p, i) => {
+      if (i > 0) {
+        const prev = stroke[i - 1]
+        const steps = Math.floor(Math.hypot(p.x - prev.x, p.y - prev.y))
+        for (let s = 1; s < steps; s++) {
+          points.push({ x: prev.x + ((p.x - prev.x) * s) / steps, y: prev.y + ((p.y - prev.y) * s) / steps })
+        }
+      }
+      points.push({ x: p.x, y: p.y })
+    })
+  })
+  return points
+}
+
+function rasterPoints(raster: Raster): Point[] {
+  const points: Point[] = []
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      if (raster.data[y * raster.width + x] > INK_THRESHOLD) {
+        points.push({ x, y })
+      }
+    }
+  }
+  return points
+}
+
+/**
+ * Convex hull by Andrew's monotone chain, counter-clockwise
+ */
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return sorted
+
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const lower: Point[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: Point[] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1))
+}
+
+function polygonArea(polygon: Point[]): number {
+  let area = 0
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length]
+    area += p.x * q.y - q.x * p.y
+  })
+  return Math.abs(area) / 2
+}
+
+function polygonPerimeter(polygon: Point[]): number {
+  return polygon.reduce((sum, p, i) => {
+    const q = polygon[(i + 1) % polygon.length]
+    return sum + Math.hypot(q.x - p.x, q.y - p.y)
+  }, 0)
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return Math.hypot(p.x - a.x, p.y - a.y)
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy))
+}
+
+/**
+ * Ramer–Douglas–Peucker simplification of an open polyline
+ */
+function simplify(points: Point[], epsilon: number): Point[] {
+  if (points.length < 3) return points
+  let maxDistance = 0
+  let index = 0
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1])
+    if (d > maxDistance) {
+      maxDistance = d
+      index = i
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]]
+  const left = simplify(points.slice(0, index + 1), epsilon)
+  const right = simplify(points.slice(index), epsilon)
+  return left.slice(0, -1).concat(right)
+}
+
+function interiorAngle(prev: Point, p: Point, next: Point): number {
+  const a = Math.atan2(prev.y - p.y, prev.x - p.x)
+  const b = Math.atan2(next.y - p.y, next.x - p.x)
+  let angle = Math.abs(a - b) * (180 / Math.PI)
+  if (angle > 180) angle = 360 - angle
+  return angle
+}
+
+/**
+ * Reduces the convex hull to its corners: simplify the closed hull, then
+ * drop vertices that are nearly straight (rounded corners leave several)
+ */
+function findCorners(hull: Point[], diameter: number): Point[] {
+  if (hull.length < 3) return hull
+
+  // Split the closed hull at its farthest vertex from the first one
+  let far = 0
+  hull.forEach((p, i) => {
+    if (Math.hypot(p.x - hull[0].x, p.y - hull[0].y) > Math.hypot(hull[far].x - hull[0].x, hull[far].y - hull[0].y)) {
+      far = i
+    }
+  })
+  const epsilon = diameter * 0.04
+  const first = simplify(hull.slice(0, far + 1), epsilon)
+  const second = simplify([...hull.slice(far), hull[0]], epsilon)
+  let corners = first.slice(0, -1).concat(second.slice(0, -1))
+
+  let changed = true
+  while (changed && corners.length > 3) {
+    changed = false
+    for (let i = 0; i < corners.length; i++) {
+      const prev = corners[(i - 1 + corners.length) % corners.length]
+      const next = corners[(i + 1) % corners.length]
+      if (interiorAngle(prev, corners[i], next) > 155) {
+        corners = corners.filter((_, j) => j !== i)
+        changed = true
+        break
+      }
+    }
+  }
+  return corners
+}
+
+function coefficientOfVariation(values: number[]): number {
+  if (values.length === 0) return 0
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  if (mean === 0) return 0
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  return Math.sqrt(variance) / mean
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+// Three decimals is plenty and keeps the index and sidecars small
+const round3 = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Computes geometric metrics for a drawing and scores it against the ideal
+ * shape for its class. Strokes are preferred when available because they
+ * are free of anti-aliasing and line width.
+ * @param expectedCorners - 0 for round shapes, n for regular n-gons,
+ * undefined when the class has no geometric model (only closure is scored)
+ */
+export function analyzeShape(
+  input: { strokes?: Stroke[]; raster?: Raster },
+  expectedCorners: number | undefined,
+): ShapeMetrics | undefined {
+  const source = input.strokes && input.strokes.length > 0 ? "strokes" : "raster"
+  const points = source === "strokes" ? densifyStrokes(input.strokes!) : input.raster ? rasterPoints(input.raster) : []
+  if (points.length < 3) return undefined
+
+  const centroid = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  }
+  const radii = points.map((p) => Math.hypot(p.x - centroid.x, p.y - centroid.y))
+
+  // Largest run of empty angular bins around the centroid (wrapping around)
+  const covered = new Array<boolean>(ANGLE_BINS).fill(false)
+  points.forEach((p) => {
+    const angle = Math.atan2(p.y - centroid.y, p.x - centroid.x) + Math.PI
+    covered[Math.min(ANGLE_BINS - 1, Math.floor((angle / (2 * Math.PI)) * ANGLE_BINS))] = true
+  })
+  let longestGap = 0
+  let run = 0
+  for (let i = 0; i < ANGLE_BINS * 2; i++) {
+    run = covered[i % ANGLE_BINS] ? 0 : run + 1
+    longestGap = Math.max(longestGap, Math.min(run, ANGLE_BINS))
+  }
+
+  const hull = convexHull(points)
+  const area = polygonArea(hull)
+  const perimeter = polygonPerimeter(hull)
+  const diameter = Math.max(...radii) * 2
+  const corners = findCorners(hull, diameter)
+
+  const idealAngle = corners.length >= 3 ? (180 * (corners.length - 2)) / corners.length : 0
+  const angles = corners.map((p, i) =>
+    interiorAngle(corners[(i - 1 + corners.length) % corners.length], p, corners[(i + 1) % corners.length]),
+  )
+  const sides = corners.map((p, i) => {
+    const q = corners[(i + 1) % corners.length]
+    return Math.hypot(q.x - p.x, q.y - p.y)
+  })
+
+  const metrics: ShapeMetrics = {
+    source,
+    circularity: round3(perimeter > 0 ? clamp01((4 * Math.PI * area) / (perimeter * perimeter)) : 0),
+    radiusVariance: round3(coefficientOfVariation(radii)),
+    closureGap: round3(longestGap / ANGLE_BINS),
+    cornerCount: corners.length,
+    angleDeviation: round3(
+      angles.length > 0 ? angles.reduce((sum, a) => sum + Math.abs(a - idealAngle), 0) / angles.length : 0,
+    ),
+    sideDeviation: round3(coefficientOfVariation(sides)),
+    score: 0,
+  }
+
+  // Each term reaches 1 at the point where a drawing stops looking like the shape
+  let badness: number
+  if (expectedCorners === undefined) {
+    badness = metrics.closureGap / 0.2
+  } else if (expectedCorners === 0) {
+    badness = Math.max(metrics.radiusVariance / 0.35, (1 - metrics.circularity) / 0.3, metrics.closureGap / 0.2)
+  } else {
+    badness = Math.max(
+      metrics.angleDeviation / 30,
+      metrics.sideDeviation / 0.4,
+      metrics.closureGap / 0.2,
+      Math.abs(metrics.cornerCount - expectedCorners) * 0.5,
+    )
+  }
+  metrics.score = round3(clamp01(1 - badness))
+  return metrics
+}
+
+/**
+ * Maps a score onto quality levels ordered best to worst, splitting the
+ * 0..1 range into equal bands
+ */
+export function suggestQuality(score: number, qualities: string[]): string {
+  const index = Math.min(qualities.length - 1, Math.floor((1 - score) * qualities.length))
+  return qualities[Math.max(0, index)]
+}
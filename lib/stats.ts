@@ -0,0 +1,178 @@
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { getAllImages, type ImageData } from "@/lib/storage"
+import { getClassNames, getQualityNames } from "@/lib/taxonomy"
+import { getContributorStats } from "@/lib/contributors"
+
+/**
+ * Balance targets for the dataset, loaded from config/stats.json
+ */
+export type StatsConfig = {
+  targetPerLabel: number // samples wanted for every label
+  labelTargets: Record<string, number> // per-label overrides of targetPerLabel
+  maxImbalanceRatio: number // warn when the largest label has more than this many times the samples of the smallest
+  minQualityShare: number // warn when a quality level is less than this fraction of a label's samples
+}
+
+export type ImbalanceWarning = {
+  kind: "belowTarget" | "imbalanceRatio" | "qualityShare"
+  label?: string
+  quality?: string
+  message: string
+}
+
+export type LabelProgress = {
+  label: string
+  count: number
+  target: number
+}
+
+export type DatasetStats = {
+  total: number
+  matrix: Record<string, Record<string, number>> // label -> quality -> count, with every taxonomy entry present
+  byLabel: Record<string, number>
+  byQuality: Record<string, number>
+  timeline: { date: string; total: number; byLabel: Record<string, number> }[] // every UTC day from first to last submission
+  contributors: { contributor: string | null; total: number; byLabel: Record<string, number> }[] // most active first
+  progress: LabelProgress[]
+  warnings: ImbalanceWarning[]
+  config: StatsConfig
+}
+
+const statsConfigSchema = z.object({
+  targetPerLabel: z.number().int().min(0).default(100),
+  labelTargets: z.record(z.number().int().min(0)).default({}),
+  maxImbalanceRatio: z.number().min(1).default(1.5),
+  minQualityShare: z.number().min(0).max(1).default(0.1),
+})
+
+const DEFAULT_CONFIG: StatsConfig = statsConfigSchema.parse({})
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "stats.json")
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getStatsConfig(): StatsConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return statsConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading stats config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+function toDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+/**
+ * Daily submission counts by label, with zero-count days filled in so
+ * charts show gaps in collection
+ */
+function buildTimeline(images: ImageData[]): DatasetStats["timeline"] {
+  if (images.length === 0) return []
+  const days = new Map<string, { total: number; byLabel: Record<string, number> }>()
+  images.forEach((image) => {
+    const date = toDate(image.timestamp)
+    const day = days.get(date) ?? { total: 0, byLabel: {} }
+    day.total++
+    day.byLabel[image.label] = (day.byLabel[image.label] ?? 0) + 1
+    days.set(date, day)
+  })
+
+  const timestamps = images.map((image) => image.timestamp)
+  const first = Date.parse(toDate(Math.min(...timestamps)))
+  const last = Date.parse(toDate(Math.max(...timestamps)))
+  const timeline: DatasetStats["timeline"] = []
+  for (let time = first; time <= last; time += DAY_MS) {
+    const date = toDate(time)
+    timeline.push({ date, ...(days.get(date) ?? { total: 0, byLabel: {} }) })
+  }
+  return timeline
+}
+
+function findImbalances(
+  matrix: DatasetStats["matrix"],
+  progress: LabelProgress[],
+  config: StatsConfig,
+): ImbalanceWarning[] {
+  const warnings: ImbalanceWarning[] = []
+
+  progress.forEach(({ label, count, target }) => {
+    if (count < target) {
+      warnings.push({ kind: "belowTarget", label, message: `${label}: ${count} of ${target} samples (${target - count} to go)` })
+    }
+  })
+
+  const counts = progress.map((entry) => entry.count)
+  const largest = progress.find((entry) => entry.count === Math.max(...counts))
+  const smallest = progress.find((entry) => entry.count === Math.min(...counts))
+  if (largest && smallest && largest.count > 0 && largest.count > smallest.count * config.maxImbalanceRatio) {
+    warnings.push({
+      kind: "imbalanceRatio",
+      label: smallest.label,
+      message:
+        smallest.count === 0
+          ? `${smallest.label} has no samples while ${largest.label} has ${largest.count}`
+          : `${largest.label} has ${(largest.count / smallest.count).toFixed(1)}× as many samples as ${smallest.label} (limit ${config.maxImbalanceRatio}×)`,
+    })
+  }
+
+  Object.entries(matrix).forEach(([label, byQuality]) => {
+    const labelTotal = Object.values(byQuality).reduce((sum, count) => sum + count, 0)
+    if (labelTotal === 0) return
+    Object.entries(byQuality).forEach(([quality, count]) => {
+      if (count / labelTotal < config.minQualityShare) {
+        warnings.push({
+          kind: "qualityShare",
+          label,
+          quality,
+          message: `${label}: only ${Math.round((count / labelTotal) * 100)}% ${quality} (${count} of ${labelTotal}, want at least ${Math.round(config.minQualityShare * 100)}%)`,
+        })
+      }
+    })
+  })
+  return warnings
+}
+
+/**
+ * Counts samples per label and quality, per day and per contributor, and
+ * checks them against the balance targets
+ */
+export function getDatasetStats(images: ImageData[] = getAllImages(), config: StatsConfig = getStatsConfig()): DatasetStats {
+  const labels = getClassNames()
+  const qualities = getQualityNames()
+
+  const matrix: DatasetStats["matrix"] = Object.fromEntries(
+    labels.map((label) => [label, Object.fromEntries(qualities.map((quality) => [quality, 0]))]),
+  )
+  const byLabel: Record<string, number> = Object.fromEntries(labels.map((label) => [label, 0]))
+  const byQuality: Record<string, number> = Object.fromEntries(qualities.map((quality) => [quality, 0]))
+  images.forEach((image) => {
+    matrix[image.label] ??= {}
+    matrix[image.label][image.quality] = (matrix[image.label][image.quality] ?? 0) + 1
+    byLabel[image.label] = (byLabel[image.label] ?? 0) + 1
+    byQuality[image.quality] = (byQuality[image.quality] ?? 0) + 1
+  })
+
+  const progress = labels.map((label) => ({
+    label,
+    count: byLabel[label],
+    target: config.labelTargets[label] ?? config.targetPerLabel,
+  }))
+
+  return {
+    total: images.length,
+    matrix,
+    byLabel,
+    byQuality,
+    timeline: buildTimeline(images),
+    contributors: getContributorStats(images).map(({ contributor, total, byLabel }) => ({ contributor, total, byLabel })),
+    progress,
+    warnings: findImbalances(matrix, progress, config),
+    config,
+  }
+}
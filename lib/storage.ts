@@ -1,183 +1,491 @@
 import fs from "fs"
 import path from "path"
+import { z } from "zod"
+import type { InputDevice, Stroke } from "@/lib/strokes"
+import { decodeInk, resizeRaster, type Raster } from "@/lib/raster"
+import {
+  getClassIndex,
+  getClassNames,
+  getDefaultQuality,
+  getExpectedCorners,
+  getFolderName,
+  getQualityNames,
+  getTaxonomy,
+} from "@/lib/taxonomy"
+import { analyzeShape, suggestQuality, type ShapeMetrics } from "@/lib/shape-analysis"
+import { checkSubmission, groupNearDuplicates, perceptualHash, type SubmissionIssue } from "@/lib/submission-checks"
+import { getSample, getSamples, openIndex, putSample, rebuildIndex, removeSample } from "@/lib/metadata-index"
+import { recordAudit } from "@/lib/audit-log"
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors"
+import { getObjectStore, type StoredObject } from "@/lib/object-store"
+import { decodePngDataUrl } from "@/lib/validation"
+import {
+  createThumbnail,
+  deleteThumbnail,
+  getThumbnailWebPath,
+  listThumbnails,
+  moveThumbnail,
+  startThumbnailBackfill,
+  writeThumbnail,
+  type BackfillStatus,
+} from "@/lib/thumbnails"
+import { moveVotes } from "@/lib/votes"
 
-type ImageData = {
+export type ImageData = {
   filename: string
   label: string
-  quality: string // perfect, medium, or irregular
-  image: string // base64 data URL
+  quality: string // one of the taxonomy's quality levels
+  image: string // base64 data URL (only set on the object returned by addImage)
   timestamp: number
   filePath: string // path to saved file
+  strokesPath?: string // path to the JSON sidecar holding the pen trajectory
+  strokeCount?: number // number of strokes in the sidecar
+  metrics?: ShapeMetrics // geometric measurements computed at submit time
+  suggestedQuality?: string // quality bucket implied by metrics.score
+  phash?: string // perceptual hash used for near-duplicate detection
+  flags?: SubmissionIssue[] // non-blocking problems found by the submission checks
+  inputDevice?: InputDevice // pointer type the drawing was made with
+  contributor?: string // name or code the submitter chose on the drawing page
+  thumbnailPath?: string // URL of the small preview, once one has been generated
+  campaign?: string // id of the collection campaign it was drawn for, in guided mode
+  submissionId?: string // idempotency key the drawing page sent, so retried submissions aren't stored twice
+  submittedBy?: string // principal that stored the sample; decides whose drawing it is for reviews, and scopes idempotency keys
+  synthetic?: boolean // rendered by the shape generator rather than drawn by a person
+  importSource?: string // file (and entry or line) it was bulk-imported from, e.g. "old.zip/circles/a.png"
 }
 
+export type AddImageOptions = {
+  strokes?: Stroke[] // pen trajectory, saved in the JSON sidecar next to the PNG
+  flags?: SubmissionIssue[] // issues from checkImage to record with the sample
+  inputDevice?: InputDevice
+  contributor?: string
+  campaign?: string
+  submissionId?: string
+  synthetic?: boolean
+  importSource?: string
+  actor?: string // who submitted it, recorded as submittedBy and in the audit log
+}
+
+/**
+ * A soft-deleted sample waiting under trash/{id}/ in the store to be restored or purged
+ */
+export type TrashEntry = {
+  id: string
+  image: ImageData // the sample as it was when deleted
+  deletedAt: number
+  deletedBy: string
+}
+
+/**
+ * Contents of the JSON sidecar written next to each PNG
+ */
+type SampleSidecar = {
+  label: string
+  quality: string
+  timestamp: number
+  width: number
+  height: number
+  strokes?: Stroke[]
+  metrics?: ShapeMetrics
+  suggestedQuality?: string
+  phash?: string
+  flags?: SubmissionIssue[]
+  inputDevice?: InputDevice
+  contributor?: string
+  campaign?: string
+  submissionId?: string
+  submittedBy?: string
+  synthetic?: boolean
+  importSource?: string
+}
+
+// The seed dataset (and samples from before the store), copied into the store on startup
+const LEGACY_SHAPES_DIR = path.join(process.cwd(), "public", "shapes")
+// Store key recording which of those files have been copied
+const LEGACY_SHAPES_KEY = "legacy-shapes.json"
+const TRASH_CONFIG_PATH = path.join(process.cwd(), "config", "trash.json")
+const trashConfigSchema = z.object({ retentionDays: z.number().min(0).default(30) })
+
+// Paths addImage has claimed but not yet indexed, so two submissions in the same millisecond never get the same filename
+const pendingPaths = new Set<string>()
+
 declare global {
-  var imageStore: ImageData[] | undefined
+  var shapesWatched: boolean | undefined
+  var legacyShapesCopy: Promise<void> | undefined
 }
 
-// Initialize global store if it doesn't exist
-if (!globalThis.imageStore) {
-  globalThis.imageStore = []
-  // Load existing images from filesystem on startup
-  loadImagesFromFilesystem()
+// Load the persistent metadata index (built from the store the first time)
+openIndex(scanStore)
+watchStore()
+if (process.env.NEXT_PHASE !== "phase-production-build") {
+  copyLegacyShapes()
+    .then(() => backfillThumbnails())
+    .catch((error) => console.error("[v0] Error starting thumbnail backfill:", error))
+}
+
+/**
+ * Returns the sidecar path for an image file (circle_123.png -> circle_123.json)
+ */
+function getSidecarPath(imagePath: string): string {
+  return imagePath.replace(/\.(png|jpg|jpeg)$/i, ".json")
 }
 
 /**
- * Maps label to folder name (singular to plural)
+ * Converts a web path (/shapes/circles/perfect/circle_123.png) to its key in
+ * the store (shapes/circles/perfect/circle_123.png)
  */
-function getFolderName(label: string): string {
-  const labelToFolder: Record<string, string> = {
-    circle: "circles",
-    square: "squares",
-    triangle: "triangles",
+function toObjectKey(webPath: string): string {
+  return webPath.startsWith("/") ? webPath.substring(1) : webPath
+}
+
+/**
+ * Reads the sidecar for an image, if one exists
+ */
+async function readSidecar(webPath: string): Promise<SampleSidecar | undefined> {
+  const sidecarKey = toObjectKey(getSidecarPath(webPath))
+  try {
+    const object = await getObjectStore().get(sidecarKey)
+    return object ? (JSON.parse(object.data.toString("utf-8")) as SampleSidecar) : undefined
+  } catch (error) {
+    console.error("[v0] Error reading sidecar:", sidecarKey, error)
+    return undefined
   }
-  return labelToFolder[label] || label
 }
 
 /**
- * Loads all existing images from the filesystem into memory
- * This ensures persistence across server restarts
+ * Decodes an image into an ink raster, or undefined if it is not a readable PNG
  */
-function loadImagesFromFilesystem() {
+function tryDecode(imageBuffer: Buffer): Raster | undefined {
   try {
-    const validLabels = ["circle", "square", "triangle"]
-    const validQualities = ["perfect", "medium", "irregular"]
-    const publicShapesDir = path.join(process.cwd(), "public", "shapes")
+    return decodeInk(imageBuffer)
+  } catch (error) {
+    console.error("[v0] Error decoding image:", error)
+    return undefined
+  }
+}
 
-    if (!fs.existsSync(publicShapesDir)) {
-      console.log("[v0] Shapes directory does not exist yet")
-      return
+/**
+ * Measures a drawing and suggests a quality bucket for it. Uses the strokes
+ * when present, otherwise the raster.
+ */
+function analyzeSample(
+  label: string,
+  raster: Raster | undefined,
+  strokes: Stroke[] | undefined,
+): { metrics?: ShapeMetrics; suggestedQuality?: string } {
+  try {
+    const expectedCorners = getExpectedCorners(label)
+    const metrics = analyzeShape({ strokes, raster }, expectedCorners)
+    if (!metrics) return {}
+    return {
+      metrics,
+      suggestedQuality: expectedCorners === undefined ? undefined : suggestQuality(metrics.score, getQualityNames()),
     }
+  } catch (error) {
+    console.error("[v0] Error analyzing shape:", error)
+    return {}
+  }
+}
 
-    validLabels.forEach((label) => {
-      const folderName = getFolderName(label)
-      const labelDir = path.join(publicShapesDir, folderName)
-      
-      if (fs.existsSync(labelDir)) {
-        // Check if it's a directory with quality subdirectories or flat structure
-        const stats = fs.statSync(labelDir)
-        
-        if (stats.isDirectory()) {
-          // Check for quality subdirectories
-          validQualities.forEach((quality) => {
-            const qualityDir = path.join(labelDir, quality)
-            if (fs.existsSync(qualityDir)) {
-              const files = fs.readdirSync(qualityDir)
-              files.forEach((file) => {
-                // Only process PNG and JPG files
-                if (file.match(/\.(png|jpg|jpeg)$/i)) {
-                  const filePath = path.join(qualityDir, file)
-                  const fileStats = fs.statSync(filePath)
-                  
-                  // Extract timestamp from filename (format: label_timestamp.png)
-                  const match = file.match(/^(.+)_(\d+)\.(png|jpg|jpeg)$/i)
-                  const timestamp = match ? parseInt(match[2], 10) : fileStats.mtimeMs
-
-                  // Create ImageData entry
-                  const imageData: ImageData = {
-                    filename: file,
-                    label,
-                    quality,
-                    image: "",
-                    timestamp,
-                    filePath: `/shapes/${folderName}/${quality}/${file}`,
-                  }
-
-                  // Check if already in store (avoid duplicates)
-                  const exists = globalThis.imageStore!.some(
-                    (img) => img.filename === file && img.label === label && img.quality === quality
-                  )
-                  if (!exists) {
-                    globalThis.imageStore!.push(imageData)
-                  }
-                }
-              })
-            }
-          })
-          
-          // Also check for files directly in the label directory (backward compatibility)
-          const files = fs.readdirSync(labelDir)
-          files.forEach((file) => {
-            const filePath = path.join(labelDir, file)
-            const fileStats = fs.statSync(filePath)
-            
-            // Only process files (not directories) and PNG/JPG files
-            if (fileStats.isFile() && file.match(/\.(png|jpg|jpeg)$/i)) {
-              // Assume "perfect" quality for old files without quality classification
-              const match = file.match(/^(.+)_(\d+)\.(png|jpg|jpeg)$/i)
-              const timestamp = match ? parseInt(match[2], 10) : fileStats.mtimeMs
-
-              const imageData: ImageData = {
-                filename: file,
-                label,
-                quality: "perfect", // Default for old files
-                image: "",
-                timestamp,
-                filePath: `/shapes/${folderName}/${file}`,
-              }
-
-              const exists = globalThis.imageStore!.some(
-                (img) => img.filename === file && img.label === label && img.quality === "perfect"
-              )
-              if (!exists) {
-                globalThis.imageStore!.push(imageData)
-              }
-            }
-          })
+/**
+ * Describes an image found in the store, inferring its timestamp from the
+ * filename (format: label_timestamp.png) or falling back to when it was written
+ * @param modifiedAt - When the image was written, if already known
+ */
+async function describeFile(label: string, quality: string, webPath: string, modifiedAt?: number): Promise<ImageData> {
+  const file = path.basename(webPath)
+  const match = file.match(/^(.+)_(\d+)\.(png|jpg|jpeg)$/i)
+
+  let stored: StoredObject | undefined
+  const getStored = async () => (stored ??= await getObjectStore().get(toObjectKey(webPath)))
+  const timestamp = match ? parseInt(match[2], 10) : (modifiedAt ?? (await getStored())?.modifiedAt ?? Date.now())
+
+  const imageData: ImageData = {
+    filename: file,
+    label,
+    quality,
+    image: "",
+    timestamp,
+    filePath: webPath,
+  }
+
+  const sidecar = await readSidecar(webPath)
+  if (sidecar?.strokes && sidecar.strokes.length > 0) {
+    imageData.strokesPath = getSidecarPath(webPath)
+    imageData.strokeCount = sidecar.strokes.length
+  }
+
+  // Samples from before scoring and hashing existed (or added by hand) are analyzed on the fly
+  let raster: Raster | undefined
+  const getRaster = async () => {
+    if (raster || !file.match(/\.png$/i)) return raster
+    const image = await getStored()
+    return (raster = image ? tryDecode(image.data) : undefined)
+  }
+
+  const analysis = sidecar?.metrics
+    ? { metrics: sidecar.metrics, suggestedQuality: sidecar.suggestedQuality }
+    : analyzeSample(label, sidecar?.strokes?.length ? undefined : await getRaster(), sidecar?.strokes)
+  if (analysis.metrics) {
+    imageData.metrics = analysis.metrics
+    imageData.suggestedQuality = analysis.suggestedQuality
+  }
+
+  const phashRaster = sidecar?.phash ? undefined : await getRaster()
+  const phash = sidecar?.phash ?? (phashRaster ? perceptualHash(phashRaster) : undefined)
+  if (phash) {
+    imageData.phash = phash
+  }
+  if (sidecar?.flags && sidecar.flags.length > 0) {
+    imageData.flags = sidecar.flags
+  }
+  if (sidecar?.inputDevice) {
+    imageData.inputDevice = sidecar.inputDevice
+  }
+  if (sidecar?.contributor) {
+    imageData.contributor = sidecar.contributor
+  }
+  if (sidecar?.campaign) {
+    imageData.campaign = sidecar.campaign
+  }
+  if (sidecar?.submissionId) {
+    imageData.submissionId = sidecar.submissionId
+  }
+  if (sidecar?.submittedBy) {
+    imageData.submittedBy = sidecar.submittedBy
+  }
+  if (sidecar?.synthetic) {
+    imageData.synthetic = true
+  }
+  if (sidecar?.importSource) {
+    imageData.importSource = sidecar.importSource
+  }
+  return imageData
+}
+
+/**
+ * Maps a path relative to shapes/ to the label and quality it implies.
+ * Files directly in a label folder are old uploads from before quality
+ * levels existed and are treated as the default quality.
+ */
+function classifyRelativePath(relativePath: string): { label: string; quality: string } | undefined {
+  const parts = relativePath.split(/[\\/]/)
+  if (!parts[parts.length - 1].match(/\.(png|jpg|jpeg)$/i)) return undefined
+
+  const shapeClass = getTaxonomy().classes.find((c) => c.folder === parts[0])
+  if (!shapeClass) return undefined
+
+  if (parts.length === 3 && getQualityNames().includes(parts[1])) {
+    return { label: shapeClass.name, quality: parts[1] }
+  }
+  if (parts.length === 2) {
+    return { label: shapeClass.name, quality: getDefaultQuality() }
+  }
+  return undefined
+}
+
+/**
+ * Lists every image in a label or quality folder of the store and describes
+ * it. Used to build the metadata index when it is missing or being rebuilt.
+ */
+async function scanStore(): Promise<ImageData[]> {
+  const found: ImageData[] = []
+  try {
+    await copyLegacyShapes()
+    const thumbnails = await listThumbnails()
+    for (const object of await getObjectStore().list("shapes/")) {
+      const relativePath = object.key.substring("shapes/".length)
+      const classification = classifyRelativePath(relativePath)
+      if (classification) {
+        const image = await describeFile(classification.label, classification.quality, `/${object.key}`, object.modifiedAt)
+        if (thumbnails.has(getThumbnailWebPath(image.filePath))) {
+          image.thumbnailPath = getThumbnailWebPath(image.filePath)
         }
+        found.push(image)
       }
-    })
+    }
+    console.log(`[v0] Found ${found.length} images in storage`)
+  } catch (error) {
+    console.error("[v0] Error scanning images in storage:", error)
+  }
+  return found
+}
+
+/**
+ * Rebuilds the metadata index from the images currently in the store
+ * @returns Number of images indexed
+ */
+export async function rebuildImageIndex(): Promise<number> {
+  return (await rebuildIndex(scanStore)).size
+}
+
+/**
+ * Copies the samples in public/shapes (the seed dataset, and anything earlier
+ * versions stored there) into the store under the same paths, so their index
+ * entries, votes and thumbnails stay valid. The originals are left in place.
+ * Each file is copied once: the copied paths are recorded in the store, so a
+ * seed sample that is later deleted or relabeled does not come back.
+ */
+function copyLegacyShapes(): Promise<void> {
+  globalThis.legacyShapesCopy ??= (async () => {
+    if (!fs.existsSync(LEGACY_SHAPES_DIR)) return
+    try {
+      const store = getObjectStore()
+      const recorded = await store.get(LEGACY_SHAPES_KEY)
+      const copied = new Set<string>(recorded ? JSON.parse(recorded.data.toString("utf-8")) : [])
+      const existing = new Set((await store.list("shapes/")).map((object) => object.key))
+
+      const files = (fs.readdirSync(LEGACY_SHAPES_DIR, { recursive: true }) as string[])
+        .filter((entry) => fs.statSync(path.join(LEGACY_SHAPES_DIR, entry)).isFile())
+        .map((entry) => `shapes/${entry.split(path.sep).join("/")}`)
+        .filter((key) => !copied.has(key))
+      if (files.length === 0) return
+      console.log(`[v0] Copying ${files.length} files from public/shapes into storage`)
+
+      for (const key of files) {
+        try {
+          if (!existing.has(key)) {
+            await store.put(key, fs.readFileSync(path.join(LEGACY_SHAPES_DIR, key.substring("shapes/".length))))
+          }
+          copied.add(key)
+        } catch (error) {
+          console.error("[v0] Error copying file into storage:", key, error)
+        }
+      }
+      await store.put(LEGACY_SHAPES_KEY, Buffer.from(JSON.stringify([...copied].sort())))
+    } catch (error) {
+      console.error("[v0] Error copying public/shapes into storage:", error)
+    }
+  })()
+  return globalThis.legacyShapesCopy
+}
+
+/**
+ * Starts generating thumbnails for every indexed sample that lacks one,
+ * in the background. Runs at startup; does nothing if already running.
+ * @returns The job's status
+ */
+export function backfillThumbnails(): Promise<BackfillStatus> {
+  return startThumbnailBackfill(getSamples(), readStoredImage, (sample, thumbnailPath) => {
+    // The sample may have been relabeled or deleted since the job started
+    const current = getSample(sample.filePath)
+    if (current && current.thumbnailPath !== thumbnailPath) {
+      putSample({ ...current, thumbnailPath })
+    }
+  })
+}
+
+/**
+ * Brings the index in line with a single file that changed in the store
+ */
+async function syncFile(relativePath: string) {
+  const store = getObjectStore()
+
+  // A sidecar changed: refresh the stroke info of its image
+  if (relativePath.match(/\.json$/i)) {
+    const imageWebPath = `/shapes/${relativePath}`.replace(/\.json$/i, ".png")
+    const indexed = getSample(imageWebPath)
+    const image = indexed && (await store.get(toObjectKey(imageWebPath)))
+    if (indexed && image) {
+      const described = await describeFile(indexed.label, indexed.quality, imageWebPath, image.modifiedAt)
+      putSample({ ...described, thumbnailPath: indexed.thumbnailPath })
+    }
+    return
+  }
 
-    console.log(`[v0] Loaded ${globalThis.imageStore!.length} images from filesystem`)
+  const classification = classifyRelativePath(relativePath)
+  if (!classification) return
+
+  const webPath = `/shapes/${relativePath}`
+  const image = await store.get(toObjectKey(webPath))
+  if (image) {
+    if (!getSample(webPath)) {
+      const thumbnailPath = await createThumbnail(webPath, image.data)
+      const described = await describeFile(classification.label, classification.quality, webPath, image.modifiedAt)
+      putSample({ ...described, thumbnailPath })
+      console.log("[v0] Indexed image added outside the app:", webPath)
+    }
+  } else if (removeSample(webPath)) {
+    await deleteThumbnail(webPath)
+    console.log("[v0] Unindexed image removed outside the app:", webPath)
+  }
+}
+
+/**
+ * Watches the shapes/ tree of the store, if the backend supports it, so files
+ * added or removed outside the app are picked up by the index. Events are
+ * debounced per path because editors and copy tools often emit several in a row.
+ */
+function watchStore() {
+  if (globalThis.shapesWatched || process.env.NEXT_PHASE === "phase-production-build") return
+
+  const pending = new Map<string, NodeJS.Timeout>()
+  try {
+    const store = getObjectStore()
+    if (!store.watch) return
+    store.watch("shapes/", (key) => {
+      const relativePath = key.substring("shapes/".length)
+      clearTimeout(pending.get(relativePath))
+      pending.set(
+        relativePath,
+        setTimeout(() => {
+          pending.delete(relativePath)
+          syncFile(relativePath).catch((error) => {
+            console.error("[v0] Error syncing changed file:", relativePath, error)
+          })
+        }, 250),
+      )
+    })
+    globalThis.shapesWatched = true
   } catch (error) {
-    console.error("[v0] Error loading images from filesystem:", error)
+    console.error("[v0] Could not watch shapes directory:", error)
   }
 }
 
 /**
- * Saves an image to the filesystem in the appropriate shape and quality folder
- * @param label - The shape label (circle, square, or triangle)
- * @param quality - The quality classification (perfect, medium, or irregular)
+ * Saves an image to the store in the appropriate shape and quality folder
+ * @param label - The shape label, one of the taxonomy's class names
+ * @param quality - The quality classification, one of the taxonomy's quality levels
  * @param image - Base64 data URL of the image
- * @returns ImageData object with file information
+ * @param options - Optional strokes, submission-check flags, input device, contributor, campaign, submission id, synthetic tag and import source to store with the sample
+ * @returns ImageData object with file information and shape metrics
  */
-export function addImage(label: string, quality: string, image: string): ImageData {
-  const timestamp = Date.now()
-  const filename = `${label}_${timestamp}.png`
+export async function addImage(
+  label: string,
+  quality: string,
+  image: string,
+  options: AddImageOptions = {},
+): Promise<ImageData> {
+  const { strokes, flags, inputDevice, contributor, campaign, submissionId, synthetic, importSource, actor } = options
   
   // Ensure label is valid
-  const validLabels = ["circle", "square", "triangle"]
+  const validLabels = getClassNames()
   if (!validLabels.includes(label)) {
-    throw new Error(`Invalid label: ${label}. Must be one of: ${validLabels.join(", ")}`)
+    throw new ValidationError(`Invalid label: ${label}. Must be one of: ${validLabels.join(", ")}`)
   }
 
   // Ensure quality is valid
-  const validQualities = ["perfect", "medium", "irregular"]
+  const validQualities = getQualityNames()
   if (!validQualities.includes(quality)) {
-    throw new Error(`Invalid quality: ${quality}. Must be one of: ${validQualities.join(", ")}`)
+    throw new ValidationError(`Invalid quality: ${quality}. Must be one of: ${validQualities.join(", ")}`)
   }
 
-  // Convert base64 data URL to buffer
+  // Convert base64 data URL to buffer, refusing anything but a 256×256 PNG
   // Format: data:image/png;base64,iVBORw0KGgoAAAANS...
-  const base64Data = image.replace(/^data:image\/\w+;base64,/, "")
-  const buffer = Buffer.from(base64Data, "base64")
+  const buffer = decodePngDataUrl(image)
 
   // Map label to folder name (circle -> circles, square -> squares, etc.)
   const folderName = getFolderName(label)
   
-  // Create directory path: public/shapes/{folderName}/{quality}/
-  const publicDir = path.join(process.cwd(), "public", "shapes", folderName, quality)
-  const filePath = path.join(publicDir, filename)
-
-  // Ensure directory exists
-  if (!fs.existsSync(publicDir)) {
-    fs.mkdirSync(publicDir, { recursive: true })
+  // Samples added within the same millisecond (e.g. by the generator) take the next free timestamp
+  let timestamp = Date.now()
+  const pathFor = (time: number) => `/shapes/${folderName}/${quality}/${label}_${time}.png`
+  while (getSample(pathFor(timestamp)) || pendingPaths.has(pathFor(timestamp))) {
+    timestamp++
   }
-
-  // Write file to filesystem
-  fs.writeFileSync(filePath, buffer)
-
-  // Create relative path for web access
-  const webPath = `/shapes/${folderName}/${quality}/${filename}`
+  const filename = `${label}_${timestamp}.png`
+  const webPath = pathFor(timestamp)
+  pendingPaths.add(webPath)
 
   const imageData: ImageData = {
     filename,
@@ -188,118 +496,348 @@ export function addImage(label: string, quality: string, image: string): ImageDa
     filePath: webPath,
   }
 
-  // Also keep in memory store for quick access
-  globalThis.imageStore!.push(imageData)
-  console.log("[v0] Image saved to filesystem:", filePath)
-  console.log("[v0] Total images in store:", globalThis.imageStore!.length)
-  
+  // Score the drawing against the ideal shape for its label, and fingerprint it
+  const raster = tryDecode(buffer)
+  const { metrics, suggestedQuality } = analyzeSample(label, strokes?.length ? undefined : raster, strokes)
+  if (metrics) {
+    imageData.metrics = metrics
+    imageData.suggestedQuality = suggestedQuality
+  }
+  const phash = raster ? perceptualHash(raster) : undefined
+  if (phash) {
+    imageData.phash = phash
+  }
+  if (raster) {
+    imageData.thumbnailPath = await writeThumbnail(webPath, raster)
+  }
+  if (flags && flags.length > 0) {
+    imageData.flags = flags
+  }
+  if (inputDevice) {
+    imageData.inputDevice = inputDevice
+  }
+  if (contributor) {
+    imageData.contributor = contributor
+  }
+  if (campaign) {
+    imageData.campaign = campaign
+  }
+  if (submissionId) {
+    imageData.submissionId = submissionId
+  }
+  if (actor) {
+    imageData.submittedBy = actor
+  }
+  if (synthetic) {
+    imageData.synthetic = true
+  }
+  if (importSource) {
+    imageData.importSource = importSource
+  }
+
+  // The sidecar (strokes, metrics and flags) is stored alongside the PNG
+  const sidecar: SampleSidecar = {
+    label,
+    quality,
+    timestamp,
+    width: 256,
+    height: 256,
+    strokes,
+    metrics,
+    suggestedQuality,
+    phash,
+    flags: imageData.flags,
+    inputDevice,
+    contributor,
+    campaign,
+    submissionId,
+    submittedBy: imageData.submittedBy,
+    synthetic: synthetic || undefined,
+    importSource,
+  }
+  if (strokes && strokes.length > 0) {
+    imageData.strokesPath = getSidecarPath(webPath)
+    imageData.strokeCount = strokes.length
+  }
+
+  // The sidecar goes first, so the image never shows up without it
+  const store = getObjectStore()
+  try {
+    await store.put(toObjectKey(getSidecarPath(webPath)), Buffer.from(JSON.stringify(sidecar)))
+    await store.put(toObjectKey(webPath), buffer)
+
+    // Record in the metadata index and audit log
+    putSample(imageData)
+  } catch (error) {
+    await deleteThumbnail(webPath)
+    throw error
+  } finally {
+    pendingPaths.delete(webPath)
+  }
+  recordAudit({ action: "create", actor: actor ?? contributor, filePath: webPath, label, quality })
+  console.log("[v0] Image saved to storage:", webPath)
+
   return imageData
 }
 
+/**
+ * Runs the junk and near-duplicate checks on a submission before it is
+ * saved, comparing it against existing samples of the same label
+ * @param label - The shape label
+ * @param image - Base64 data URL of the image
+ * @returns Issues found; any with action "reject" should block the submission
+ */
+export function checkImage(label: string, image: string): SubmissionIssue[] {
+  const base64Data = image.replace(/^data:image\/\w+;base64,/, "")
+  const raster = tryDecode(Buffer.from(base64Data, "base64"))
+  if (!raster) {
+    return [{ check: "unreadable", action: "reject", message: "Image could not be decoded as a PNG" }]
+  }
+  return checkSubmission(raster, perceptualHash(raster), getImagesByLabel(label))
+}
+
 export function getAllImages(): ImageData[] {
-  console.log("[v0] Getting all images. Total:", globalThis.imageStore!.length)
-  return [...globalThis.imageStore!].sort((a, b) => b.timestamp - a.timestamp)
+  const images = getSamples()
+  console.log("[v0] Getting all images. Total:", images.length)
+  return images.sort((a, b) => b.timestamp - a.timestamp)
 }
 
 export function getImagesByLabel(label: string): ImageData[] {
-  return globalThis.imageStore!.filter((img) => img.label === label)
+  return getSamples().filter((img) => img.label === label)
 }
 
 export function getImagesByQuality(quality: string): ImageData[] {
-  return globalThis.imageStore!.filter((img) => img.quality === quality)
+  return getSamples().filter((img) => img.quality === quality)
 }
 
 export function getImagesByLabelAndQuality(label: string, quality: string): ImageData[] {
-  return globalThis.imageStore!.filter((img) => img.label === label && img.quality === quality)
+  return getSamples().filter((img) => img.label === label && img.quality === quality)
+}
+
+/**
+ * The sample a principal stored for a submission, if it has sent that idempotency key before
+ * @param submittedBy - The principal's name; another principal's key with the same value never matches
+ */
+export function findImageBySubmissionId(submittedBy: string, submissionId: string): ImageData | undefined {
+  return getSamples().find((image) => image.submittedBy === submittedBy && image.submissionId === submissionId)
+}
+
+export function getImagesByContributor(contributor: string): ImageData[] {
+  return getAllImages().filter((img) => img.contributor === contributor)
+}
+
+/**
+ * Groups samples of the same label whose perceptual hashes are within
+ * `maxDistance` bits, newest first within each group
+ */
+export function getNearDuplicateGroups(maxDistance: number): ImageData[][] {
+  return groupNearDuplicates(getAllImages(), maxDistance)
+}
+
+/**
+ * Loads the pen trajectory recorded with an image, if any
+ */
+export async function getImageStrokes(image: ImageData): Promise<Stroke[] | undefined> {
+  return image.strokesPath ? (await readSidecar(image.filePath))?.strokes : undefined
+}
+
+/**
+ * Reads a file under shapes/ in the store by its web path: an image, or the
+ * JSON sidecar next to one
+ * @param webPath - e.g. /shapes/circles/perfect/circle_123.png
+ * @returns The file contents, or undefined if there is no such file
+ */
+export async function readStoredImage(webPath: string): Promise<Buffer | undefined> {
+  if (!webPath.startsWith("/shapes/")) return undefined
+  return (await getObjectStore().get(toObjectKey(webPath)))?.data
+}
+
+/**
+ * Reads the raw bytes of a stored image
+ * @param image - An entry from the index
+ * @returns The file contents
+ * @throws NotFoundError if the file is missing from the store
+ */
+export async function readImageFile(image: ImageData): Promise<Buffer> {
+  const data = await readStoredImage(image.filePath)
+  if (!data) {
+    throw new NotFoundError(`Image not found: ${image.filePath}`)
+  }
+  return data
+}
+
+/**
+ * Exports every sample with stroke data as Google QuickDraw NDJSON (one
+ * drawing per line). Coordinates are scaled from the 256×256 canvas to the
+ * requested resolution; samples without strokes are skipped.
+ * @param resolution - Target canvas size, e.g. 256 for the QuickDraw simplified range
+ * @param images - Samples to export, by default the whole store
+ * @returns NDJSON text
+ */
+export async function exportQuickDrawNdjson(resolution: number, images: ImageData[] = getAllImages()): Promise<string> {
+  const scale = resolution / 256
+  const lines: string[] = []
+
+  for (const img of images) {
+    const strokes = await getImageStrokes(img)
+    if (!strokes || strokes.length === 0) continue
+
+    const drawing = strokes.map((stroke) => [
+      stroke.map((p) => Math.min(resolution - 1, Math.max(0, Math.round(p.x * scale)))),
+      stroke.map((p) => Math.min(resolution - 1, Math.max(0, Math.round(p.y * scale)))),
+      stroke.map((p) => p.t),
+    ])
+
+    lines.push(
+      JSON.stringify({
+        word: img.label,
+        class_index: getClassIndex(img.label),
+        quality: img.quality,
+        countrycode: "",
+        timestamp: new Date(img.timestamp).toISOString(),
+        recognized: true,
+        key_id: img.filename.replace(/\.(png|jpg|jpeg)$/i, ""),
+        drawing,
+      }),
+    )
+  }
+
+  console.log(`[v0] Exported ${lines.length} drawings as QuickDraw NDJSON`)
+  return lines.length > 0 ? lines.join("\n") + "\n" : ""
+}
+
+/**
+ * Exports every PNG sample as MNIST-style IDX files: an idx3-ubyte image
+ * file (white ink on black, like MNIST) and an idx1-ubyte label file
+ * holding class indices.
+ * @param resolution - Side length of the downsampled images, e.g. 28
+ * @param images - Samples to export, by default the whole store
+ * @returns Image and label file contents
+ */
+export async function exportIdx(
+  resolution: number,
+  images: ImageData[] = getAllImages(),
+): Promise<{ images: Buffer; labels: Buffer }> {
+  const pixels: Uint8Array[] = []
+  const classIndices: number[] = []
+
+  for (const img of images) {
+    if (!img.filename.match(/\.png$/i)) {
+      console.warn("[v0] Skipping non-PNG image in IDX export:", img.filename)
+      continue
+    }
+    try {
+      const raster = resizeRaster(decodeInk(await readImageFile(img)), resolution, resolution)
+      pixels.push(raster.data)
+      classIndices.push(getClassIndex(img.label))
+    } catch (error) {
+      console.error("[v0] Error decoding image for IDX export:", img.filePath, error)
+    }
+  }
+
+  const imageHeader = Buffer.alloc(16)
+  imageHeader.writeUInt32BE(0x00000803, 0)
+  imageHeader.writeUInt32BE(pixels.length, 4)
+  imageHeader.writeUInt32BE(resolution, 8)
+  imageHeader.writeUInt32BE(resolution, 12)
+
+  const labelHeader = Buffer.alloc(8)
+  labelHeader.writeUInt32BE(0x00000801, 0)
+  labelHeader.writeUInt32BE(classIndices.length, 4)
+
+  console.log(`[v0] Exported ${pixels.length} images as IDX at ${resolution}x${resolution}`)
+  return {
+    images: Buffer.concat([imageHeader, ...pixels.map((p) => Buffer.from(p))]),
+    labels: Buffer.concat([labelHeader, Buffer.from(classIndices)]),
+  }
 }
 
 /**
  * Finds an image in the store by filename, label, and quality
  */
 function findImageInStore(filename: string, label: string, quality: string): ImageData | undefined {
-  // Normalize quality (default to "perfect" if undefined)
-  const normalizedQuality = quality || "perfect"
+  // Normalize quality (default to the best quality level if undefined)
+  const defaultQuality = getDefaultQuality()
+  const normalizedQuality = quality || defaultQuality
   
-  return globalThis.imageStore!.find(
+  return getSamples().find(
     (img) => {
-      const imgQuality = img.quality || "perfect"
+      const imgQuality = img.quality || defaultQuality
       return img.filename === filename && img.label === label && imgQuality === normalizedQuality
     }
   )
 }
 
 /**
- * Deletes an image from both filesystem and memory store
+ * Soft-deletes an image: moves it and its sidecar to trash/{id}/ in the store
+ * and removes it from the metadata index. Use restoreImage to bring it back.
  * @param filename - The filename of the image to delete
- * @param label - The shape label (circle, square, or triangle)
- * @param quality - The quality classification (perfect, medium, or irregular)
+ * @param label - The shape label, one of the taxonomy's class names
+ * @param quality - The quality classification, one of the taxonomy's quality levels
+ * @param actor - Who is deleting it, for the trash record and audit log
  * @returns true if deletion was successful, false otherwise
  */
-export function deleteImage(filename: string, label: string, quality: string): boolean {
+export async function deleteImage(filename: string, label: string, quality: string, actor?: string): Promise<boolean> {
   try {
+    const store = getObjectStore()
+
     // First, try to find the image in the store to get its filePath
     const imageInStore = findImageInStore(filename, label, quality)
-    
+
     let deleted = false
     const pathsToTry: string[] = []
-    
+
     // If we found the image in store, use its filePath
     if (imageInStore && imageInStore.filePath) {
-      // Convert web path to filesystem path
-      // filePath is like: /shapes/circles/perfect/circle_123.png
-      // We need: public/shapes/circles/perfect/circle_123.png
-      const relativePath = imageInStore.filePath.startsWith("/") 
-        ? imageInStore.filePath.substring(1) 
-        : imageInStore.filePath
-      const fullPath = path.join(process.cwd(), "public", relativePath)
-      pathsToTry.push(fullPath)
+      pathsToTry.push(imageInStore.filePath)
     }
-    
+
     // Map label to folder name
     const folderName = getFolderName(label)
-    
+
     // Try quality subdirectory path
-    const qualityDir = path.join(process.cwd(), "public", "shapes", folderName, quality)
-    const qualityFilePath = path.join(qualityDir, filename)
-    pathsToTry.push(qualityFilePath)
-    
+    pathsToTry.push(`/shapes/${folderName}/${quality}/${filename}`)
+
     // Try old format (without quality subdirectory)
-    const oldDir = path.join(process.cwd(), "public", "shapes", folderName)
-    const oldFilePath = path.join(oldDir, filename)
-    pathsToTry.push(oldFilePath)
-    
+    pathsToTry.push(`/shapes/${folderName}/${filename}`)
+
     // Try all possible paths
-    for (const filePath of pathsToTry) {
-      if (fs.existsSync(filePath)) {
-        try {
-          fs.unlinkSync(filePath)
-          deleted = true
-          console.log("[v0] Deleted image from filesystem:", filePath)
-          break // Found and deleted, no need to try other paths
-        } catch (err) {
-          console.error("[v0] Error deleting file at:", filePath, err)
+    for (const webPath of pathsToTry) {
+      try {
+        const image = imageInStore?.filePath === webPath ? imageInStore : undefined
+        const entry: TrashEntry = {
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          image: image ?? (await describeFile(label, quality, webPath)),
+          deletedAt: Date.now(),
+          deletedBy: actor || "anonymous",
         }
+
+        // Move the image and its sidecar into the trash, then record the entry
+        const entryPrefix = `trash/${entry.id}/`
+        if (!(await store.move(toObjectKey(webPath), entryPrefix + filename))) continue
+        await store.move(toObjectKey(getSidecarPath(webPath)), entryPrefix + getSidecarPath(filename))
+        await store.put(`${entryPrefix}entry.json`, Buffer.from(JSON.stringify(entry)))
+        // Thumbnails are cheap to regenerate, so they are dropped rather than trashed
+        await deleteThumbnail(webPath)
+
+        deleted = true
+        recordAudit({ action: "delete", actor, filePath: webPath, label, quality, trashId: entry.id })
+        console.log("[v0] Moved image to trash:", webPath, "->", entryPrefix)
+        break // Found and deleted, no need to try other paths
+      } catch (err) {
+        console.error("[v0] Error moving file to trash:", webPath, err)
       }
     }
-    
+
     if (!deleted) {
       console.warn("[v0] Image file not found. Tried paths:", pathsToTry)
       console.warn("[v0] Looking for:", { filename, label, quality })
     }
-    
-    // Remove from memory store regardless of file deletion success
-    const normalizedQuality = quality || "perfect"
-    const initialLength = globalThis.imageStore!.length
-    globalThis.imageStore! = globalThis.imageStore!.filter(
-      (img) => {
-        const imgQuality = img.quality || "perfect"
-        return !(img.filename === filename && img.label === label && imgQuality === normalizedQuality)
-      }
-    )
-    
-    const removedFromStore = globalThis.imageStore!.length < initialLength
-    console.log(`[v0] Image removed from store: ${removedFromStore}. Total images: ${globalThis.imageStore!.length}`)
-    
+
+    // Remove from the index regardless of file deletion success
+    const removedFromStore = imageInStore ? removeSample(imageInStore.filePath) : false
+    console.log(`[v0] Image removed from index: ${removedFromStore}. Total images: ${getSamples().length}`)
+
     // Return true if either file was deleted OR it was removed from store (in case file was already deleted)
     return deleted || removedFromStore
   } catch (error) {
@@ -307,3 +845,230 @@ export function deleteImage(filename: string, label: string, quality: string): b
     return false
   }
 }
+
+/**
+ * Number of days a trashed sample is kept before it is purged, from
+ * config/trash.json (default 30)
+ */
+export function getTrashRetentionDays(): number {
+  try {
+    if (fs.existsSync(TRASH_CONFIG_PATH)) {
+      return trashConfigSchema.parse(JSON.parse(fs.readFileSync(TRASH_CONFIG_PATH, "utf-8"))).retentionDays
+    }
+  } catch (error) {
+    console.error("[v0] Error loading trash config, using defaults:", error)
+  }
+  return 30
+}
+
+/**
+ * The ids of every entry in the trash
+ */
+async function listTrashIds(): Promise<string[]> {
+  const objects = await getObjectStore().list("trash/")
+  return objects.filter((object) => object.key.endsWith("/entry.json")).map((object) => object.key.split("/")[1])
+}
+
+async function readTrashEntry(id: string): Promise<TrashEntry | undefined> {
+  const entryKey = `trash/${path.basename(id)}/entry.json`
+  try {
+    const object = await getObjectStore().get(entryKey)
+    return object ? (JSON.parse(object.data.toString("utf-8")) as TrashEntry) : undefined
+  } catch (error) {
+    console.error("[v0] Error reading trash entry:", entryKey, error)
+    return undefined
+  }
+}
+
+/**
+ * Lists trashed samples, newest deletion first. Entries past the retention
+ * period are purged first.
+ */
+export async function getTrash(): Promise<TrashEntry[]> {
+  await purgeExpiredTrash()
+  const entries = await Promise.all((await listTrashIds()).map((id) => readTrashEntry(id)))
+  return entries
+    .filter((entry): entry is TrashEntry => entry !== undefined)
+    .sort((a, b) => b.deletedAt - a.deletedAt)
+}
+
+/**
+ * Reads the image file of a trashed sample
+ */
+export async function readTrashImageFile(id: string): Promise<Buffer | undefined> {
+  const entry = await readTrashEntry(id)
+  if (!entry) return undefined
+  return (await getObjectStore().get(`trash/${path.basename(id)}/${entry.image.filename}`))?.data
+}
+
+/**
+ * Moves a trashed sample back to where it was deleted from
+ * @param id - The trash entry id
+ * @param actor - Who is restoring it, for the audit log
+ * @returns The restored ImageData, or undefined if the entry does not exist
+ * @throws Error if another file now occupies the original path
+ */
+export async function restoreImage(id: string, actor?: string): Promise<ImageData | undefined> {
+  const entry = await readTrashEntry(id)
+  if (!entry) return undefined
+
+  const { image } = entry
+  const store = getObjectStore()
+  const entryPrefix = `trash/${path.basename(id)}/`
+  const targetKey = toObjectKey(image.filePath)
+  if (getSample(image.filePath) || (await store.get(targetKey))) {
+    throw new ConflictError(`Cannot restore: ${image.filePath} already exists`)
+  }
+
+  // The sidecar goes first, so the image never shows up without it
+  await store.move(entryPrefix + getSidecarPath(image.filename), toObjectKey(getSidecarPath(image.filePath)))
+  if (!(await store.move(entryPrefix + image.filename, targetKey))) {
+    throw new NotFoundError(`Trashed image is missing: ${image.filename}`)
+  }
+  await store.delete(`${entryPrefix}entry.json`)
+
+  const restored: ImageData = { ...image, thumbnailPath: await createThumbnail(image.filePath, await readStoredImage(image.filePath)) }
+  putSample(restored)
+  recordAudit({ action: "restore", actor, filePath: image.filePath, label: image.label, quality: image.quality, trashId: id })
+  console.log("[v0] Restored image from trash:", image.filePath)
+  return restored
+}
+
+/**
+ * Permanently deletes a trashed sample
+ * @returns true if the entry existed
+ */
+export async function purgeTrashEntry(id: string, actor?: string): Promise<boolean> {
+  const entry = await readTrashEntry(id)
+  if (!entry) return false
+
+  const store = getObjectStore()
+  const entryPrefix = `trash/${path.basename(id)}/`
+  // The entry record goes last, so an interrupted purge can be retried
+  const objects = await store.list(entryPrefix)
+  for (const object of objects.filter((object) => object.key !== `${entryPrefix}entry.json`)) {
+    await store.delete(object.key)
+  }
+  await store.delete(`${entryPrefix}entry.json`)
+  recordAudit({
+    action: "purge",
+    actor,
+    filePath: entry.image.filePath,
+    label: entry.image.label,
+    quality: entry.image.quality,
+    trashId: id,
+  })
+  console.log("[v0] Purged image from trash:", entry.image.filePath)
+  return true
+}
+
+/**
+ * Permanently deletes trashed samples older than the retention period
+ * @param retentionDays - Defaults to the configured retention
+ * @returns Number of entries purged
+ */
+export async function purgeExpiredTrash(retentionDays: number = getTrashRetentionDays(), actor = "system"): Promise<number> {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+  let purged = 0
+  for (const id of await listTrashIds()) {
+    const entry = await readTrashEntry(id)
+    if (entry && entry.deletedAt <= cutoff && (await purgeTrashEntry(id, actor))) {
+      purged++
+    }
+  }
+  return purged
+}
+
+/**
+ * Changes a sample's label and/or quality, moving its PNG and sidecar to
+ * the matching shapes/{folder}/{quality}/ prefix of the store. The PNG is
+ * moved in one step (a rename on the filesystem), so it is never half-written.
+ * @param filename - The filename of the image to change
+ * @param label - The current shape label
+ * @param quality - The current quality classification
+ * @param changes - The new label and/or quality
+ * @param actor - Who made the change, for the audit log
+ * @returns The updated ImageData, or undefined if the image was not found
+ * @throws Error if the new label or quality is not in the taxonomy, or the target file already exists
+ */
+export async function relabelImage(
+  filename: string,
+  label: string,
+  quality: string,
+  changes: { label?: string; quality?: string },
+  actor?: string,
+): Promise<ImageData | undefined> {
+  const image = findImageInStore(filename, label, quality)
+  if (!image) return undefined
+
+  const newLabel = changes.label ?? image.label
+  const newQuality = changes.quality ?? image.quality
+
+  const validLabels = getClassNames()
+  if (!validLabels.includes(newLabel)) {
+    throw new ValidationError(`Invalid label: ${newLabel}. Must be one of: ${validLabels.join(", ")}`)
+  }
+  const validQualities = getQualityNames()
+  if (!validQualities.includes(newQuality)) {
+    throw new ValidationError(`Invalid quality: ${newQuality}. Must be one of: ${validQualities.join(", ")}`)
+  }
+  if (newLabel === image.label && newQuality === image.quality) return image
+
+  // Keep the label_timestamp.png naming when the label changes
+  const oldPrefix = `${image.label}_`
+  const newFilename = image.filename.startsWith(oldPrefix)
+    ? `${newLabel}_${image.filename.substring(oldPrefix.length)}`
+    : image.filename
+  const newWebPath = `/shapes/${getFolderName(newLabel)}/${newQuality}/${newFilename}`
+  const store = getObjectStore()
+
+  if (getSample(newWebPath) || (await store.get(toObjectKey(newWebPath)))) {
+    throw new ConflictError(`Target file already exists: ${newWebPath}`)
+  }
+
+  if (!(await store.move(toObjectKey(image.filePath), toObjectKey(newWebPath)))) {
+    throw new NotFoundError(`Image not found: ${image.filePath}`)
+  }
+
+  // Rewrite the sidecar at the new location; a label change means a new geometric model
+  const sidecar = await readSidecar(image.filePath)
+  const updated: ImageData = { ...image, filename: newFilename, label: newLabel, quality: newQuality, filePath: newWebPath }
+  if (newLabel !== image.label) {
+    const stored = sidecar?.strokes?.length ? undefined : await readStoredImage(newWebPath)
+    const { metrics, suggestedQuality } = analyzeSample(newLabel, stored && tryDecode(stored), sidecar?.strokes)
+    updated.metrics = metrics
+    updated.suggestedQuality = suggestedQuality
+  }
+  if (updated.strokesPath) {
+    updated.strokesPath = getSidecarPath(newWebPath)
+  }
+  updated.thumbnailPath =
+    (await moveThumbnail(image.filePath, newWebPath)) ?? (await createThumbnail(newWebPath, await readStoredImage(newWebPath)))
+
+  if (sidecar) {
+    const newSidecar: SampleSidecar = {
+      ...sidecar,
+      label: newLabel,
+      quality: newQuality,
+      metrics: updated.metrics,
+      suggestedQuality: updated.suggestedQuality,
+    }
+    await store.put(toObjectKey(getSidecarPath(newWebPath)), Buffer.from(JSON.stringify(newSidecar)))
+    await store.delete(toObjectKey(getSidecarPath(image.filePath)))
+  }
+
+  removeSample(image.filePath)
+  putSample(updated)
+  moveVotes(image.filePath, newWebPath)
+  recordAudit({
+    action: "relabel",
+    actor,
+    filePath: newWebPath,
+    label: newLabel,
+    quality: newQuality,
+    previous: { filePath: image.filePath, label: image.label, quality: image.quality },
+  })
+  console.log("[v0] Image relabeled:", image.filePath, "->", newWebPath)
+
+  return updated
+}
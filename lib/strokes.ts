@@ -0,0 +1,51 @@
+import { z } from "zod"
+
+/**
+ * A single sampled pen position on the 256×256 drawing canvas
+ */
+export type StrokePoint = {
+  x: number
+  y: number
+  t: number // milliseconds since the first point of the drawing
+  pressure?: number // 0..1, only present when the input device reports it
+  tiltX?: number // stylus tilt in degrees (-90..90), pens only
+  tiltY?: number
+}
+
+/**
+ * An ordered list of points drawn without lifting the pen
+ */
+export type Stroke = StrokePoint[]
+
+/**
+ * Pointer types a drawing can be made with, as reported by Pointer Events
+ */
+export const INPUT_DEVICES = ["mouse", "touch", "pen"] as const
+
+export type InputDevice = (typeof INPUT_DEVICES)[number]
+
+export const inputDeviceSchema = z.enum(INPUT_DEVICES)
+
+const strokePointSchema = z
+  .object({
+    x: z.number().finite(),
+    y: z.number().finite(),
+    t: z.number().finite(),
+    pressure: z.number().min(0).max(1).optional(),
+    tiltX: z.number().min(-90).max(90).optional(),
+    tiltY: z.number().min(-90).max(90).optional(),
+  })
+  .transform((point): StrokePoint => {
+    const { tiltX, tiltY, ...rest } = point
+    // Tilt is only meaningful as a pair
+    return tiltX !== undefined && tiltY !== undefined ? { ...rest, tiltX, tiltY } : rest
+  })
+
+/**
+ * Stroke data received from the client. Unknown point fields are dropped and
+ * empty strokes removed.
+ */
+export const strokesSchema = z
+  .array(z.array(strokePointSchema).max(10000))
+  .max(1000)
+  .transform((strokes): Stroke[] => strokes.filter((stroke) => stroke.length > 0))
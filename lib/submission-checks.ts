@@ -0,0 +1,265 @@
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { resizeRaster, type Raster } from "@/lib/raster"
+
+export type CheckAction = "reject" | "flag"
+
+/**
+ * Thresholds for the checks run on every submission, loaded from
+ * config/submission-checks.json. Sizes are fractions of the canvas.
+ */
+export type SubmissionCheckConfig = {
+  duplicates: { rejectDistance: number; flagDistance: number } // Hamming distance between perceptual hashes
+  inkCoverage: { min: number; max: number; action: CheckAction } // fraction of pixels with ink
+  boundingBox: { minSize: number; action: CheckAction } // longest side of the ink bounding box
+  components: { max: number; minPixels: number; action: CheckAction } // connected ink blobs larger than minPixels
+}
+
+export type SubmissionIssue = {
+  check: "unreadable" | "duplicate" | "inkCoverage" | "boundingBox" | "components"
+  action: CheckAction
+  message: string
+  duplicateOf?: string // filePath of the similar sample
+}
+
+const actionSchema = z.enum(["reject", "flag"])
+
+// Every field has a default, so a config file only needs the thresholds it changes
+const submissionCheckConfigSchema = z.object({
+  duplicates: z
+    .object({
+      rejectDistance: z.number().int().min(0).max(256).default(4),
+      flagDistance: z.number().int().min(0).max(256).default(14),
+    })
+    .default({}),
+  inkCoverage: z
+    .object({
+      min: z.number().min(0).max(1).default(0.002),
+      max: z.number().min(0).max(1).default(0.3),
+      action: actionSchema.default("reject"),
+    })
+    .refine((range) => range.min <= range.max, "inkCoverage.min must not exceed inkCoverage.max")
+    .default({}),
+  boundingBox: z
+    .object({ minSize: z.number().min(0).max(1).default(0.1), action: actionSchema.default("reject") })
+    .default({}),
+  components: z
+    .object({
+      max: z.number().int().min(1).default(1),
+      minPixels: z.number().int().min(0).default(20),
+      action: actionSchema.default("flag"),
+    })
+    .default({}),
+})
+
+const DEFAULT_CONFIG: SubmissionCheckConfig = submissionCheckConfigSchema.parse({})
+
+const CONFIG_PATH = path.join(process.cwd(), "config", "submission-checks.json")
+
+// Ink intensity above which a pixel counts as drawn
+const INK_THRESHOLD = 64
+
+/**
+ * Loads the check thresholds, falling back to the defaults for anything
+ * the config file does not set
+ */
+export function getSubmissionCheckConfig(): SubmissionCheckConfig {
+  try {
+    if (fs.existsSync(CONFIG_PATH)) {
+      return submissionCheckConfigSchema.parse(JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8")))
+    }
+  } catch (error) {
+    console.error("[v0] Error loading submission check config, using defaults:", error)
+  }
+  return DEFAULT_CONFIG
+}
+
+// Side of the difference-hash grid; 16 gives a 256-bit hash
+const HASH_SIZE = 16
+
+/**
+ * 256-bit difference hash (dHash) of a drawing, as 64 hex characters.
+ * Each bit records whether a cell of a 17×16 downsample is darker than its
+ * right-hand neighbour, so small shifts and line-width changes keep most
+ * bits. Line drawings leave most cells empty, so a finer grid than the usual
+ * 9×8 is needed to tell separate drawings of the same shape apart.
+ */
+export function perceptualHash(raster: Raster): string {
+  const small = resizeRaster(raster, HASH_SIZE + 1, HASH_SIZE)
+  let hex = ""
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x += 4) {
+      let nibble = 0
+      for (let bit = 0; bit < 4; bit++) {
+        const index = y * (HASH_SIZE + 1) + x + bit
+        nibble = (nibble << 1) | (small.data[index] > small.data[index + 1] ? 1 : 0)
+      }
+      hex += nibble.toString(16)
+    }
+  }
+  return hex
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.substring(i, i + 2), 16) ^ parseInt(b.substring(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * Counts 8-connected ink blobs with at least `minPixels` pixels
+ */
+function countComponents(raster: Raster, minPixels: number): number {
+  const { width, height, data } = raster
+  const visited = new Uint8Array(width * height)
+  const stack: number[] = []
+  let count = 0
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] <= INK_THRESHOLD) continue
+
+    let size = 0
+    visited[start] = 1
+    stack.push(start)
+    while (stack.length > 0) {
+      const index = stack.pop()!
+      size++
+      const x = index % width
+      const y = Math.floor(index / width)
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+          const neighbour = ny * width + nx
+          if (!visited[neighbour] && data[neighbour] > INK_THRESHOLD) {
+            visited[neighbour] = 1
+            stack.push(neighbour)
+          }
+        }
+      }
+    }
+    if (size >= minPixels) count++
+  }
+  return count
+}
+
+/**
+ * Runs the junk and near-duplicate checks on a drawing
+ * @param raster - The decoded submission
+ * @param phash - Its perceptual hash
+ * @param existing - Samples of the same label to compare against
+ * @returns Every issue found; callers reject when any has action "reject"
+ */
+export function checkSubmission(
+  raster: Raster,
+  phash: string,
+  existing: { filePath: string; phash?: string }[],
+  config: SubmissionCheckConfig = getSubmissionCheckConfig(),
+): SubmissionIssue[] {
+  const issues: SubmissionIssue[] = []
+  const { width, height, data } = raster
+
+  // Ink coverage and bounding box
+  let inkPixels = 0
+  let minX = width
+  let minY = height
+  let maxX = -1
+  let maxY = -1
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] > INK_THRESHOLD) {
+      inkPixels++
+      const x = i % width
+      const y = Math.floor(i / width)
+      minX = Math.min(minX, x)
+      maxX = Math.max(maxX, x)
+      minY = Math.min(minY, y)
+      maxY = Math.max(maxY, y)
+    }
+  }
+
+  const coverage = inkPixels / data.length
+  if (coverage < config.inkCoverage.min || coverage > config.inkCoverage.max) {
+    issues.push({
+      check: "inkCoverage",
+      action: config.inkCoverage.action,
+      message: `Ink covers ${(coverage * 100).toFixed(1)}% of the canvas (allowed ${(config.inkCoverage.min * 100).toFixed(1)}–${(config.inkCoverage.max * 100).toFixed(1)}%)`,
+    })
+  }
+
+  const boxSize = maxX < 0 ? 0 : Math.max(maxX - minX + 1, maxY - minY + 1) / Math.max(width, height)
+  if (boxSize < config.boundingBox.minSize) {
+    issues.push({
+      check: "boundingBox",
+      action: config.boundingBox.action,
+      message: `Drawing spans ${(boxSize * 100).toFixed(0)}% of the canvas (minimum ${(config.boundingBox.minSize * 100).toFixed(0)}%)`,
+    })
+  }
+
+  const components = countComponents(raster, config.components.minPixels)
+  if (components > config.components.max) {
+    issues.push({
+      check: "components",
+      action: config.components.action,
+      message: `Drawing has ${components} separate parts (expected at most ${config.components.max})`,
+    })
+  }
+
+  // Closest existing sample of the same label
+  let closest: { filePath: string; distance: number } | undefined
+  existing.forEach((sample) => {
+    if (!sample.phash) return
+    const distance = hashDistance(phash, sample.phash)
+    if (!closest || distance < closest.distance) {
+      closest = { filePath: sample.filePath, distance }
+    }
+  })
+  if (closest && closest.distance <= config.duplicates.flagDistance) {
+    issues.push({
+      check: "duplicate",
+      action: closest.distance <= config.duplicates.rejectDistance ? "reject" : "flag",
+      message: `Nearly identical to an existing sample (hash distance ${closest.distance})`,
+      duplicateOf: closest.filePath,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Groups samples whose perceptual hashes are within `maxDistance` of each
+ * other (single linkage), per label. Only groups of two or more are returned.
+ */
+export function groupNearDuplicates<T extends { label: string; phash?: string }>(
+  samples: T[],
+  maxDistance: number,
+): T[][] {
+  const hashed = samples.filter((s) => s.phash)
+  const parent = hashed.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hashed[i].label === hashed[j].label && hashDistance(hashed[i].phash!, hashed[j].phash!) <= maxDistance) {
+        parent[find(i)] = find(j)
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>()
+  hashed.forEach((sample, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), sample])
+  })
+  return [...groups.values()].filter((group) => group.length > 1)
+}
@@ -0,0 +1,111 @@
+import type { InputDevice, Stroke } from "@/lib/strokes"
+
+/**
+ * Browser-side queue of drawings that could not be submitted, kept in
+ * IndexedDB so they survive a closed tab or a reload until the server can be
+ * reached again
+ */
+
+// Body of POST /api/submit
+export type SubmissionPayload = {
+  image: string
+  label: string
+  quality: string
+  strokes: Stroke[]
+  inputDevice?: InputDevice
+  contributor: string
+  campaign?: string
+}
+
+export type QueuedSubmission = {
+  id: string // sent as the Idempotency-Key, so a retry never stores the drawing twice
+  payload: SubmissionPayload
+  queuedAt: number
+  attempts: number
+  nextAttemptAt: number
+  status: "pending" | "failed" // failed entries were refused by the server and are not retried
+  lastError?: string
+}
+
+const DB_NAME = "shape-drawing"
+const STORE_NAME = "submissions"
+
+// Retry delays double from the first to the last, with up to 20% jitter
+const FIRST_RETRY_MS = 2_000
+const MAX_RETRY_MS = 5 * 60_000
+
+let dbPromise: Promise<IDBDatabase> | undefined
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = undefined
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * A fresh idempotency key for a submission
+ */
+export function newSubmissionId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * How long to wait before the next attempt after `attempts` failed ones
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * 2 ** Math.max(0, attempts - 1))
+  return delay * (1 + Math.random() * 0.2)
+}
+
+/**
+ * Stores a submission for a later retry
+ * @param id - The idempotency key the first attempt was sent with
+ */
+export async function enqueueSubmission(id: string, payload: SubmissionPayload, error: string): Promise<QueuedSubmission> {
+  const now = Date.now()
+  const entry: QueuedSubmission = {
+    id,
+    payload,
+    queuedAt: now,
+    attempts: 1,
+    nextAttemptAt: now + getRetryDelay(1),
+    status: "pending",
+    lastError: error,
+  }
+  await runRequest("readwrite", (store) => store.put(entry))
+  return entry
+}
+
+/**
+ * Every queued submission, oldest first
+ */
+export async function getQueuedSubmissions(): Promise<QueuedSubmission[]> {
+  const entries = await runRequest("readonly", (store) => store.getAll() as IDBRequest<QueuedSubmission[]>)
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt)
+}
+
+export async function updateQueuedSubmission(entry: QueuedSubmission): Promise<void> {
+  await runRequest("readwrite", (store) => store.put(entry))
+}
+
+export async function removeQueuedSubmission(id: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id))
+}
@@ -0,0 +1,303 @@
+import { addImage, type ImageData } from "@/lib/storage"
+import { encodeInk, renderStrokes } from "@/lib/raster"
+import { getExpectedCorners, getQualityNames } from "@/lib/taxonomy"
+import type { Stroke, StrokePoint } from "@/lib/strokes"
+import { createRandom } from "@/lib/dataset"
+import { CANVAS_SIZE } from "@/lib/validation"
+import { ValidationError } from "@/lib/errors"
+
+/**
+ * How far a generated drawing strays from the ideal shape
+ */
+export type NoiseParameters = {
+  wobble: number // px the line drifts off the ideal outline
+  closure: [number, number] // px range where the stroke ends: negative leaves a gap, positive overshoots the start
+  cornerRounding: number // share of each side cut off the corners
+  vertexJitter: number // share of the radius each corner may move
+  aspect: number // largest stretch of one axis against the other
+  tilt: number // degrees the whole shape may be rotated
+  separateSides: number // chance of drawing a polygon one side at a time, crossing at the corners
+  cornerOvershoot: number // px a separately drawn side may run past its corner
+}
+
+export type SyntheticRequest = {
+  label: string
+  qualities: string[]
+  countPerQuality: number
+  seed: number
+}
+
+// Noise at the best (level 0) and worst (level 1) quality; levels in between are interpolated
+const CLEANEST: NoiseParameters = {
+  wobble: 0.8,
+  closure: [-2, 3],
+  cornerRounding: 0.01,
+  vertexJitter: 0.01,
+  aspect: 0.04,
+  tilt: 4,
+  separateSides: 0,
+  cornerOvershoot: 0,
+}
+const NOISIEST: NoiseParameters = {
+  wobble: 7,
+  closure: [-40, 25],
+  cornerRounding: 0.25,
+  vertexJitter: 0.16,
+  aspect: 0.35,
+  tilt: 30,
+  separateSides: 0.6,
+  cornerOvershoot: 16,
+}
+
+// Spacing of the points along a generated stroke, and how fast the imaginary pen moves
+const POINT_SPACING = 3
+const PEN_SPEED = 0.5 // px per ms
+const PEN_LIFT_MS = 180
+
+type Point = { x: number; y: number }
+
+/**
+ * Noise for a quality level: the best level in the taxonomy gets level 0,
+ * the worst level 1, and the ones in between are spread evenly
+ */
+export function getNoiseLevel(quality: string): number {
+  const qualities = getQualityNames()
+  const index = qualities.indexOf(quality)
+  if (index === -1) {
+    throw new ValidationError(`Unknown quality: ${quality}. Must be one of: ${qualities.join(", ")}`)
+  }
+  return qualities.length > 1 ? index / (qualities.length - 1) : 0
+}
+
+export function getNoiseParameters(level: number): NoiseParameters {
+  const mix = (clean: number, noisy: number) => clean + (noisy - clean) * level
+  return {
+    wobble: mix(CLEANEST.wobble, NOISIEST.wobble),
+    closure: [mix(CLEANEST.closure[0], NOISIEST.closure[0]), mix(CLEANEST.closure[1], NOISIEST.closure[1])],
+    cornerRounding: mix(CLEANEST.cornerRounding, NOISIEST.cornerRounding),
+    vertexJitter: mix(CLEANEST.vertexJitter, NOISIEST.vertexJitter),
+    aspect: mix(CLEANEST.aspect, NOISIEST.aspect),
+    tilt: mix(CLEANEST.tilt, NOISIEST.tilt),
+    separateSides: mix(CLEANEST.separateSides, NOISIEST.separateSides),
+    cornerOvershoot: mix(CLEANEST.cornerOvershoot, NOISIEST.cornerOvershoot),
+  }
+}
+
+/**
+ * Points every POINT_SPACING px along a polyline, keeping both ends
+ */
+function resample(points: Point[]): Point[] {
+  const result: Point[] = [points[0]]
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1]
+    const to = points[i]
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / POINT_SPACING))
+    for (let step = 1; step <= steps; step++) {
+      result.push({ x: from.x + ((to.x - from.x) * step) / steps, y: from.y + ((to.y - from.y) * step) / steps })
+    }
+  }
+  return result
+}
+
+/**
+ * Walks `length` px along a closed loop from its first point, going round
+ * again if the length exceeds the loop's perimeter
+ */
+function walkLoop(loop: Point[], length: number): Point[] {
+  const result: Point[] = [loop[0]]
+  let remaining = length
+  for (let i = 0; remaining > 0; i++) {
+    const from = loop[i % loop.length]
+    const to = loop[(i + 1) % loop.length]
+    const segment = Math.hypot(to.x - from.x, to.y - from.y)
+    if (segment >= remaining) {
+      const share = segment > 0 ? remaining / segment : 0
+      result.push({ x: from.x + (to.x - from.x) * share, y: from.y + (to.y - from.y) * share })
+      break
+    }
+    result.push(to)
+    remaining -= segment
+  }
+  return result
+}
+
+function perimeter(loop: Point[]): number {
+  return loop.reduce((sum, point, i) => {
+    const next = loop[(i + 1) % loop.length]
+    return sum + Math.hypot(next.x - point.x, next.y - point.y)
+  }, 0)
+}
+
+/**
+ * Corners of a regular polygon around the origin with a flat base, each
+ * moved by up to vertexJitter
+ */
+function placeVertices(corners: number, radius: number, noise: NoiseParameters, random: () => number): Point[] {
+  const firstAngle = corners % 2 === 1 ? -Math.PI / 2 : -Math.PI / 2 - Math.PI / corners
+  const vertices = Array.from({ length: corners }, (_, i) => {
+    const angle = firstAngle + (2 * Math.PI * i) / corners
+    return {
+      x: radius * Math.cos(angle) + (random() * 2 - 1) * noise.vertexJitter * radius,
+      y: radius * Math.sin(angle) + (random() * 2 - 1) * noise.vertexJitter * radius,
+    }
+  })
+  return vertices
+}
+
+/**
+ * The outline around the origin: a circle for 0 corners, otherwise a
+ * polygon with its corners rounded off
+ */
+function buildOutline(corners: number, radius: number, noise: NoiseParameters, random: () => number): Point[] {
+  if (corners === 0) {
+    const start = random() * 2 * Math.PI
+    const steps = Math.ceil((2 * Math.PI * radius) / POINT_SPACING)
+    return Array.from({ length: steps }, (_, i) => {
+      const angle = start + (2 * Math.PI * i) / steps
+      return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }
+    })
+  }
+
+  const vertices = placeVertices(corners, radius, noise, random)
+
+  // Each corner becomes a quadratic curve between points cut back along its two sides
+  const outline: Point[] = []
+  vertices.forEach((vertex, i) => {
+    const previous = vertices[(i + corners - 1) % corners]
+    const next = vertices[(i + 1) % corners]
+    const cut = (from: Point) => ({
+      x: vertex.x + (from.x - vertex.x) * noise.cornerRounding,
+      y: vertex.y + (from.y - vertex.y) * noise.cornerRounding,
+    })
+    const entry = cut(previous)
+    const exit = cut(next)
+    const curveSteps = noise.cornerRounding > 0.02 ? 6 : 1
+    for (let step = 0; step <= curveSteps; step++) {
+      const t = step / curveSteps
+      outline.push({
+        x: (1 - t) ** 2 * entry.x + 2 * (1 - t) * t * vertex.x + t ** 2 * exit.x,
+        y: (1 - t) ** 2 * entry.y + 2 * (1 - t) * t * vertex.y + t ** 2 * exit.y,
+      })
+    }
+  })
+  return resample([...outline, outline[0]]).slice(0, -1)
+}
+
+/**
+ * A polygon drawn one side at a time, each side running past its corners
+ */
+function buildSeparateSides(corners: number, radius: number, noise: NoiseParameters, random: () => number): Point[][] {
+  const vertices = placeVertices(corners, radius, noise, random)
+  return vertices.map((from, i) => {
+    const to = vertices[(i + 1) % corners]
+    const length = Math.hypot(to.x - from.x, to.y - from.y)
+    const dx = (to.x - from.x) / length
+    const dy = (to.y - from.y) / length
+    const before = random() * noise.cornerOvershoot
+    const after = random() * noise.cornerOvershoot
+    return resample([
+      { x: from.x - dx * before, y: from.y - dy * before },
+      { x: to.x + dx * after, y: to.y + dy * after },
+    ])
+  })
+}
+
+/**
+ * Slow drift of up to `amplitude` px along a stroke, from random offsets
+ * every few dozen points eased into each other, plus a faint tremor
+ */
+function addWobble(points: Point[], amplitude: number, random: () => number): Point[] {
+  const spacing = 20
+  const knots = Math.ceil(points.length / spacing) + 1
+  const knotsX = Array.from({ length: knots }, () => (random() * 2 - 1) * amplitude)
+  const knotsY = Array.from({ length: knots }, () => (random() * 2 - 1) * amplitude)
+  const ease = (values: number[], i: number) => {
+    const position = i / spacing
+    const k = Math.floor(position)
+    const t = (1 - Math.cos((position - k) * Math.PI)) / 2
+    return values[k] * (1 - t) + values[Math.min(k + 1, values.length - 1)] * t
+  }
+  return points.map((point, i) => ({
+    x: point.x + ease(knotsX, i) + (random() - 0.5) * 0.6,
+    y: point.y + ease(knotsY, i) + (random() - 0.5) * 0.6,
+  }))
+}
+
+/**
+ * Renders one hand-drawn-looking shape
+ * @param corners - 0 for a circle, otherwise the polygon's corner count
+ * @param level - Noise level between 0 (cleanest) and 1 (noisiest)
+ * @returns The PNG as a data URL and the strokes it was drawn from
+ */
+export function renderSyntheticShape(corners: number, level: number, seed: number): { image: string; strokes: Stroke[] } {
+  const random = createRandom(seed)
+  const between = (min: number, max: number) => min + random() * (max - min)
+  const noise = getNoiseParameters(level)
+
+  const center = { x: CANVAS_SIZE / 2 + between(-15, 15), y: CANVAS_SIZE / 2 + between(-15, 15) }
+  const radius = between(55, 95)
+  const stretch = between(-noise.aspect, noise.aspect) / 2
+  const tilt = (between(-noise.tilt, noise.tilt) * Math.PI) / 180
+  const place = (point: Point): Point => {
+    const x = point.x * (1 + stretch)
+    const y = point.y * (1 - stretch)
+    return {
+      x: center.x + x * Math.cos(tilt) - y * Math.sin(tilt),
+      y: center.y + x * Math.sin(tilt) + y * Math.cos(tilt),
+    }
+  }
+
+  let paths: Point[][]
+  if (corners >= 3 && random() < noise.separateSides) {
+    paths = buildSeparateSides(corners, radius, noise, random)
+  } else {
+    const outline = buildOutline(corners, radius, noise, random)
+    const closure = between(noise.closure[0], noise.closure[1])
+    paths = [walkLoop(outline, perimeter(outline) + closure)]
+  }
+
+  // Time the points as if drawn at a steady speed, lifting the pen between strokes
+  let time = 0
+  const strokes: Stroke[] = paths.map((path, index) => {
+    if (index > 0) time += PEN_LIFT_MS
+    const placed = addWobble(resample(path.map(place)), noise.wobble, random)
+    return placed.map((point, i): StrokePoint => {
+      if (i > 0) time += Math.hypot(point.x - placed[i - 1].x, point.y - placed[i - 1].y) / PEN_SPEED
+      return {
+        x: Math.round(Math.min(CANVAS_SIZE, Math.max(0, point.x)) * 100) / 100,
+        y: Math.round(Math.min(CANVAS_SIZE, Math.max(0, point.y)) * 100) / 100,
+        t: Math.round(time),
+      }
+    })
+  })
+
+  const lineWidth = between(2.5, 4.5)
+  const png = encodeInk(renderStrokes(strokes, lineWidth, CANVAS_SIZE))
+  return { image: `data:image/png;base64,${png.toString("base64")}`, strokes }
+}
+
+/**
+ * Generates synthetic samples and stores them through addImage, tagged as
+ * synthetic. The same request and seed always produce the same drawings.
+ * @throws ValidationError if the label has no geometric model (corners in the taxonomy)
+ */
+export async function generateSyntheticSamples(request: SyntheticRequest, actor?: string): Promise<ImageData[]> {
+  const corners = getExpectedCorners(request.label)
+  if (corners === undefined || (corners > 0 && corners < 3)) {
+    throw new ValidationError(
+      `Cannot generate ${request.label}: give it 0 corners (round) or 3 or more in the taxonomy`,
+    )
+  }
+
+  const created: ImageData[] = []
+  for (const [qualityIndex, quality] of request.qualities.entries()) {
+    const level = getNoiseLevel(quality)
+    for (let i = 0; i < request.countPerQuality; i++) {
+      const seed = (request.seed + qualityIndex * 100003 + i * 7919) >>> 0
+      const { image, strokes } = renderSyntheticShape(corners, level, seed)
+      created.push(await addImage(request.label, quality, image, { strokes, synthetic: true, actor }))
+    }
+  }
+  console.log(`[v0] Generated ${created.length} synthetic ${request.label} samples`)
+  return created
+}
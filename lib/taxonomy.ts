@@ -0,0 +1,164 @@
+import fs from "fs"
+import path from "path"
+import { z } from "zod"
+import { fromZodError } from "@/lib/errors"
+
+export type ShapeClass = {
+  name: string // label stored with each sample, e.g. "circle"
+  folder: string // folder under shapes/ in the store, e.g. "circles"
+  displayName: string
+  description: string
+  corners?: number // 0 for round shapes, n for regular n-gons; enables automatic quality scoring
+}
+
+export type QualityLevel = {
+  name: string // e.g. "perfect"
+  displayName: string
+  description: string
+}
+
+/**
+ * Classes are listed in export order (a class's position is its numeric
+ * index); qualities are listed from best to worst
+ */
+export type Taxonomy = {
+  classes: ShapeClass[]
+  qualities: QualityLevel[]
+}
+
+export const slugSchema = z.string().regex(/^[a-z0-9_-]+$/, 'Use lowercase letters, digits, "-" or "_"')
+
+/**
+ * A taxonomy as stored in config/taxonomy.json or sent to PUT /api/taxonomy:
+ * its structure, plus class names, folders and quality names being unique
+ */
+export const taxonomySchema = z
+  .object({
+    classes: z
+      .array(
+        z.object({
+          name: slugSchema,
+          folder: slugSchema,
+          displayName: z.string(),
+          description: z.string(),
+          corners: z
+            .number()
+            .int()
+            .refine((corners) => corners === 0 || corners >= 3, "Use 0 for round shapes or 3 and up for polygons")
+            .optional(),
+        }),
+      )
+      .min(1, "Taxonomy needs at least one class"),
+    qualities: z
+      .array(z.object({ name: slugSchema, displayName: z.string(), description: z.string() }))
+      .min(1, "Taxonomy needs at least one quality level"),
+  })
+  .superRefine((taxonomy, context) => {
+    const entries: { kind: string; list: "classes" | "qualities"; key: "name" | "folder"; names: string[] }[] = [
+      { kind: "class name", list: "classes", key: "name", names: taxonomy.classes.map((c) => c.name) },
+      { kind: "class folder", list: "classes", key: "folder", names: taxonomy.classes.map((c) => c.folder) },
+      { kind: "quality name", list: "qualities", key: "name", names: taxonomy.qualities.map((q) => q.name) },
+    ]
+    entries.forEach(({ kind, list, key, names }) => {
+      names.forEach((name, i) => {
+        if (names.indexOf(name) !== i) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: [list, i, key], message: `Duplicate ${kind}: ${name}` })
+        }
+      })
+    })
+  })
+
+const DEFAULT_TAXONOMY: Taxonomy = {
+  classes: [
+    { name: "circle", folder: "circles", displayName: "Circle", description: "A closed round curve", corners: 0 },
+    {
+      name: "square",
+      folder: "squares",
+      displayName: "Square",
+      description: "Four equal sides and four right angles",
+      corners: 4,
+    },
+    { name: "triangle", folder: "triangles", displayName: "Triangle", description: "Three straight sides", corners: 3 },
+  ],
+  qualities: [
+    { name: "perfect", displayName: "Perfect", description: "Clean, closed and well proportioned" },
+    { name: "medium", displayName: "Medium", description: "Recognizable with visible wobble or distortion" },
+    { name: "irregular", displayName: "Irregular", description: "Barely recognizable, open or heavily distorted" },
+  ],
+}
+
+const TAXONOMY_PATH = path.join(process.cwd(), "config", "taxonomy.json")
+
+declare global {
+  var taxonomy: Taxonomy | undefined
+}
+
+/**
+ * Returns the current taxonomy, loading config/taxonomy.json on first use
+ * and falling back to the built-in circle/square/triangle set
+ */
+export function getTaxonomy(): Taxonomy {
+  if (!globalThis.taxonomy) {
+    try {
+      if (fs.existsSync(TAXONOMY_PATH)) {
+        globalThis.taxonomy = taxonomySchema.parse(JSON.parse(fs.readFileSync(TAXONOMY_PATH, "utf-8")))
+      } else {
+        globalThis.taxonomy = DEFAULT_TAXONOMY
+      }
+    } catch (error) {
+      console.error("[v0] Error loading taxonomy, using defaults:", error)
+      globalThis.taxonomy = DEFAULT_TAXONOMY
+    }
+  }
+  return globalThis.taxonomy!
+}
+
+/**
+ * Validates and writes a new taxonomy to config/taxonomy.json
+ */
+export function saveTaxonomy(value: Taxonomy): Taxonomy {
+  const parsed = taxonomySchema.safeParse(value)
+  if (!parsed.success) throw fromZodError(parsed.error, "Invalid taxonomy")
+  const taxonomy = parsed.data
+  fs.mkdirSync(path.dirname(TAXONOMY_PATH), { recursive: true })
+  fs.writeFileSync(TAXONOMY_PATH, JSON.stringify(taxonomy, null, 2) + "\n")
+  globalThis.taxonomy = taxonomy
+  console.log("[v0] Taxonomy saved:", taxonomy.classes.length, "classes,", taxonomy.qualities.length, "quality levels")
+  return taxonomy
+}
+
+export function getClassNames(): string[] {
+  return getTaxonomy().classes.map((c) => c.name)
+}
+
+export function getQualityNames(): string[] {
+  return getTaxonomy().qualities.map((q) => q.name)
+}
+
+/**
+ * Quality assumed for samples saved before quality levels existed
+ */
+export function getDefaultQuality(): string {
+  return getTaxonomy().qualities[0].name
+}
+
+/**
+ * Maps label to folder name (e.g. circle -> circles)
+ */
+export function getFolderName(label: string): string {
+  return getTaxonomy().classes.find((c) => c.name === label)?.folder || label
+}
+
+/**
+ * Expected corner count for a class, or undefined if it has no geometric model
+ */
+export function getExpectedCorners(label: string): number | undefined {
+  return getTaxonomy().classes.find((c) => c.name === label)?.corners
+}
+
+/**
+ * Numeric class index used by the exporters (position in the class list)
+ */
+export function getClassIndex(label: string): number {
+  return getClassNames().indexOf(label)
+}
@@ -0,0 +1,209 @@
+import type { ImageData } from "@/lib/storage"
+import { getObjectStore } from "@/lib/object-store"
+import { decodeInk, encodeInk, resizeRaster, type Raster } from "@/lib/raster"
+
+// Twice the width of a gallery card, so thumbnails stay sharp on high-DPI screens
+export const THUMBNAIL_SIZE = 128
+
+// Samples thumbnailed per tick of the backfill job, between which requests get served
+const BACKFILL_BATCH_SIZE = 20
+
+/**
+ * Progress of the most recent thumbnail backfill
+ */
+export type BackfillStatus = {
+  running: boolean
+  total: number // samples that had no thumbnail when the job started
+  processed: number
+  generated: number
+  failed: number // unreadable or non-PNG originals; the gallery shows these full size
+  startedAt: number
+  finishedAt?: number
+}
+
+/**
+ * Reads a stored image by its path (/shapes/...), or undefined if it is missing
+ */
+export type ImageLoader = (webPath: string) => Promise<Buffer | undefined>
+
+declare global {
+  var thumbnailBackfill: BackfillStatus | undefined
+}
+
+/**
+ * The store key of an image's thumbnail, mirroring the shapes/ tree:
+ * /shapes/circles/perfect/circle_123.png -> thumbnails/circles/perfect/circle_123.png
+ */
+function getThumbnailKey(webPath: string): string {
+  return webPath.replace(/^\/shapes\//, "thumbnails/").replace(/\.(jpe?g)$/i, ".png")
+}
+
+/**
+ * The URL the thumbnail of an image is served from
+ * (/shapes/circles/perfect/circle_123.png -> /api/thumbnails/circles/perfect/circle_123.png)
+ */
+export function getThumbnailWebPath(webPath: string): string {
+  return webPath.replace(/^\/shapes\//, "/api/thumbnails/").replace(/\.(jpe?g)$/i, ".png")
+}
+
+/**
+ * The URLs of every thumbnail in the store, listed in one go rather than
+ * checked image by image
+ */
+export async function listThumbnails(): Promise<Set<string>> {
+  const objects = await getObjectStore().list("thumbnails/")
+  return new Set(objects.map((object) => `/api/${object.key}`))
+}
+
+/**
+ * Shrinks a decoded image and saves it as the thumbnail for `webPath`.
+ * Thumbnails can always be regenerated, so a failed write is logged rather than thrown.
+ * @returns The thumbnail's URL, or undefined if it could not be saved
+ */
+export async function writeThumbnail(webPath: string, raster: Raster): Promise<string | undefined> {
+  try {
+    await getObjectStore().put(getThumbnailKey(webPath), encodeInk(resizeRaster(raster, THUMBNAIL_SIZE, THUMBNAIL_SIZE)))
+    return getThumbnailWebPath(webPath)
+  } catch (error) {
+    console.error("[v0] Error saving thumbnail:", webPath, error)
+    return undefined
+  }
+}
+
+/**
+ * Generates the thumbnail for a stored image
+ * @param image - The image's contents, or undefined if it is missing
+ * @returns The thumbnail's URL, or undefined if the image is missing or not a readable PNG
+ */
+export async function createThumbnail(webPath: string, image: Buffer | undefined): Promise<string | undefined> {
+  if (!webPath.match(/\.png$/i) || !image) return undefined
+  let raster: Raster
+  try {
+    raster = decodeInk(image)
+  } catch (error) {
+    console.error("[v0] Error creating thumbnail:", webPath, error)
+    return undefined
+  }
+  return writeThumbnail(webPath, raster)
+}
+
+/**
+ * Moves a thumbnail along with its relabeled image
+ * @returns The thumbnail's new URL, or undefined if there was none to move
+ */
+export async function moveThumbnail(fromWebPath: string, toWebPath: string): Promise<string | undefined> {
+  try {
+    const moved = await getObjectStore().move(getThumbnailKey(fromWebPath), getThumbnailKey(toWebPath))
+    return moved ? getThumbnailWebPath(toWebPath) : undefined
+  } catch (error) {
+    console.error("[v0] Error moving thumbnail:", fromWebPath, error)
+    return undefined
+  }
+}
+
+export async function deleteThumbnail(webPath: string) {
+  try {
+    await getObjectStore().delete(getThumbnailKey(webPath))
+  } catch (error) {
+    console.error("[v0] Error deleting thumbnail:", webPath, error)
+  }
+}
+
+/**
+ * Reads a thumbnail by its path under /api/thumbnails, generating it first
+ * if the image exists but has no thumbnail yet
+ * @param relativePath - e.g. "circles/perfect/circle_123.png"
+ * @param loadImage - Reads the original, to generate a missing thumbnail
+ * @returns The PNG and its modification time, or undefined if there is no such image
+ */
+export async function readThumbnail(
+  relativePath: string,
+  loadImage: ImageLoader,
+): Promise<{ data: Buffer; modifiedAt: number } | undefined> {
+  const webPath = `/shapes/${relativePath}`
+  const store = getObjectStore()
+  const thumbnail = await store.get(getThumbnailKey(webPath))
+  if (thumbnail) return thumbnail
+
+  if (!(await createThumbnail(webPath, await loadImage(webPath)))) return undefined
+  return store.get(getThumbnailKey(webPath))
+}
+
+export function getBackfillStatus(): BackfillStatus | undefined {
+  return globalThis.thumbnailBackfill
+}
+
+/**
+ * Generates missing thumbnails in small batches on timers, so a large
+ * backlog doesn't block requests. Does nothing if a backfill is already running.
+ * @param samples - Samples to thumbnail; those that already have one are skipped
+ * @param loadImage - Reads each sample's original
+ * @param onCreated - Called with each sample and its new thumbnail URL, to update the index
+ * @returns The job's status, which keeps updating as it runs
+ */
+export async function startThumbnailBackfill(
+  samples: ImageData[],
+  loadImage: ImageLoader,
+  onCreated: (sample: ImageData, thumbnailPath: string) => void,
+): Promise<BackfillStatus> {
+  if (globalThis.thumbnailBackfill?.running) return globalThis.thumbnailBackfill
+
+  // Claimed before listing the store, so a second call in the meantime returns this job
+  const status: BackfillStatus = {
+    running: true,
+    total: 0,
+    processed: 0,
+    generated: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  }
+  globalThis.thumbnailBackfill = status
+
+  let existing: Set<string>
+  try {
+    existing = await listThumbnails()
+  } catch (error) {
+    status.running = false
+    status.finishedAt = Date.now()
+    throw error
+  }
+  const pending = samples.filter(
+    (sample) => sample.thumbnailPath !== getThumbnailWebPath(sample.filePath) || !existing.has(sample.thumbnailPath),
+  )
+  status.total = pending.length
+  if (pending.length > 0) {
+    console.log(`[v0] Generating thumbnails for ${pending.length} images`)
+  }
+
+  const runBatch = async () => {
+    for (const sample of pending.splice(0, BACKFILL_BATCH_SIZE)) {
+      let thumbnailPath: string | undefined
+      try {
+        thumbnailPath = existing.has(getThumbnailWebPath(sample.filePath))
+          ? getThumbnailWebPath(sample.filePath)
+          : await createThumbnail(sample.filePath, await loadImage(sample.filePath))
+      } catch (error) {
+        console.error("[v0] Error reading image for thumbnail:", sample.filePath, error)
+      }
+      if (thumbnailPath) {
+        onCreated(sample, thumbnailPath)
+        status.generated++
+      } else {
+        status.failed++
+      }
+      status.processed++
+    }
+
+    if (pending.length > 0) {
+      setTimeout(runBatch, 0).unref()
+    } else {
+      status.running = false
+      status.finishedAt = Date.now()
+      if (status.total > 0) {
+        console.log(`[v0] Thumbnail backfill done: ${status.generated} generated, ${status.failed} failed`)
+      }
+    }
+  }
+  setTimeout(runBatch, 0).unref()
+  return status
+}
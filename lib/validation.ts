@@ -0,0 +1,149 @@
+import { z } from "zod"
+import { PayloadTooLargeError, UnprocessableError, ValidationError, fromZodError } from "@/lib/errors"
+import { readPngHeader } from "@/lib/raster"
+import { getClassNames, getQualityNames } from "@/lib/taxonomy"
+
+// Side of the drawing canvas; every stored PNG must be this size
+export const CANVAS_SIZE = 256
+
+// A 256×256 line drawing is a few KB; anything near these limits is not a canvas export
+export const MAX_IMAGE_BYTES = 512 * 1024
+export const MAX_JSON_BODY_BYTES = 4 * 1024 * 1024
+
+/**
+ * A bare image filename as stored under shapes/: no directories,
+ * no "..", no characters that could escape the shapes tree
+ */
+export const filenameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+\.(png|jpe?g)$/i, "Must be a plain image filename such as circle_1737312625123.png")
+
+export const labelSchema = z.string().refine(
+  (value) => getClassNames().includes(value),
+  (value) => ({ message: `Unknown label: ${value}. Must be one of: ${getClassNames().join(", ")}` }),
+)
+
+export const qualitySchema = z.string().refine(
+  (value) => getQualityNames().includes(value),
+  (value) => ({ message: `Unknown quality: ${value}. Must be one of: ${getQualityNames().join(", ")}` }),
+)
+
+export const pngDataUrlSchema = z
+  .string()
+  .regex(/^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/, "Must be a base64 PNG data URL")
+
+/**
+ * A point in time given as epoch milliseconds or an ISO date string, parsed
+ * to epoch milliseconds
+ */
+export const timestampSchema = z.string().transform((value, ctx) => {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${value}` })
+    return z.NEVER
+  }
+  return time
+})
+
+/**
+ * Reads a request body, counting the bytes as they arrive, so a chunked
+ * upload without a Content-Length header cannot run past the limit either
+ * @param message - Error message when the body is too large
+ * @throws PayloadTooLargeError as soon as the body exceeds maxBytes
+ */
+export async function readBodyBytes(request: Request, maxBytes: number, message: string): Promise<Buffer> {
+  if (Number(request.headers.get("content-length") ?? 0) > maxBytes) throw new PayloadTooLargeError(message)
+  if (!request.body) return Buffer.alloc(0)
+
+  const chunks: Uint8Array[] = []
+  let received = 0
+  const reader = request.body.getReader()
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    received += chunk.value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw new PayloadTooLargeError(message)
+    }
+    chunks.push(chunk.value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Reads and validates a JSON request body
+ * @throws PayloadTooLargeError if the body exceeds maxBytes,
+ * ValidationError if it is not JSON or does not match the schema
+ */
+export async function readJsonBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  maxBytes: number = MAX_JSON_BODY_BYTES,
+): Promise<z.output<T>> {
+  const body = await readBodyBytes(request, maxBytes, `Request body exceeds ${Math.round(maxBytes / 1024)} KB`)
+  const text = body.toString("utf-8")
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new ValidationError("Request body must be valid JSON")
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) throw fromZodError(result.error)
+  return result.data
+}
+
+/**
+ * Validates the query string. Repeated parameters keep their last value;
+ * use z.coerce for numbers.
+ * @throws ValidationError if it does not match the schema
+ */
+export function parseSearchParams<T extends z.ZodTypeAny>(request: Request, schema: T): z.output<T> {
+  const params = Object.fromEntries(
+    [...new URL(request.url).searchParams.entries()].filter(([, value]) => value !== ""),
+  )
+  const result = schema.safeParse(params)
+  if (!result.success) throw fromZodError(result.error, "Invalid query parameters")
+  return result.data
+}
+
+const idempotencyKeySchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{8,128}$/, "Idempotency-Key must be 8-128 letters, digits, dashes or underscores")
+
+/**
+ * Reads the optional Idempotency-Key header a client sends so that a retried
+ * request is applied only once
+ * @throws ValidationError if the key is malformed
+ */
+export function readIdempotencyKey(request: Request): string | undefined {
+  const header = request.headers.get("idempotency-key")
+  if (header === null) return undefined
+  const result = idempotencyKeySchema.safeParse(header)
+  if (!result.success) throw fromZodError(result.error, "Invalid Idempotency-Key header")
+  return result.data
+}
+
+/**
+ * Decodes a PNG data URL and checks that it really is a canvas-sized PNG
+ * @throws PayloadTooLargeError if the image exceeds MAX_IMAGE_BYTES,
+ * UnprocessableError if it is not a 256×256 PNG
+ */
+export function decodePngDataUrl(dataUrl: string): Buffer {
+  const buffer = Buffer.from(dataUrl.replace(/^data:image\/\w+;base64,/, ""), "base64")
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new PayloadTooLargeError(`Image exceeds ${MAX_IMAGE_BYTES / 1024} KB`)
+  }
+
+  const header = readPngHeader(buffer)
+  if (!header) {
+    throw new UnprocessableError("Image is not a PNG")
+  }
+  if (header.width !== CANVAS_SIZE || header.height !== CANVAS_SIZE) {
+    throw new UnprocessableError(
+      `Image must be ${CANVAS_SIZE}×${CANVAS_SIZE} pixels, got ${header.width}×${header.height}`,
+    )
+  }
+  return buffer
+}
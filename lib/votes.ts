@@ -0,0 +1,99 @@
+import fs from "fs"
+import path from "path"
+
+/**
+ * One reviewer's quality rating of a sample
+ */
+export type Vote = {
+  filePath: string
+  reviewer: string
+  quality: string
+  timestamp: number
+}
+
+/**
+ * One line of the append-only vote log. A reviewer's latest vote on a sample
+ * replaces their earlier one; "move" records follow a sample that was relabeled.
+ */
+type VoteRecord = ({ op: "vote" } & Vote) | { op: "move"; from: string; to: string; timestamp: number }
+
+const VOTES_PATH = path.join(process.cwd(), "data", "votes.jsonl")
+
+declare global {
+  var voteStore: Map<string, Map<string, Vote>> | undefined // filePath -> reviewer -> vote
+}
+
+function appendRecord(record: VoteRecord) {
+  fs.mkdirSync(path.dirname(VOTES_PATH), { recursive: true })
+  fs.appendFileSync(VOTES_PATH, JSON.stringify(record) + "\n")
+}
+
+function applyRecord(store: Map<string, Map<string, Vote>>, record: VoteRecord) {
+  if (record.op === "vote") {
+    const vote: Vote = {
+      filePath: record.filePath,
+      reviewer: record.reviewer,
+      quality: record.quality,
+      timestamp: record.timestamp,
+    }
+    const votes = store.get(vote.filePath) ?? new Map<string, Vote>()
+    votes.set(vote.reviewer, vote)
+    store.set(vote.filePath, votes)
+  } else if (record.op === "move") {
+    const votes = store.get(record.from)
+    if (!votes) return
+    store.delete(record.from)
+    votes.forEach((vote) => (vote.filePath = record.to))
+    store.set(record.to, votes)
+  }
+}
+
+/**
+ * Loads data/votes.jsonl into memory on first use
+ */
+function getStore(): Map<string, Map<string, Vote>> {
+  if (!globalThis.voteStore) {
+    const store = new Map<string, Map<string, Vote>>()
+    if (fs.existsSync(VOTES_PATH)) {
+      fs.readFileSync(VOTES_PATH, "utf-8")
+        .split("\n")
+        .filter(Boolean)
+        .forEach((line, lineNumber) => {
+          try {
+            applyRecord(store, JSON.parse(line) as VoteRecord)
+          } catch (error) {
+            console.error(`[v0] Skipping corrupt vote line ${lineNumber + 1}:`, error)
+          }
+        })
+    }
+    globalThis.voteStore = store
+  }
+  return globalThis.voteStore
+}
+
+/**
+ * Records a reviewer's rating, replacing any earlier rating of theirs for the same sample
+ */
+export function recordVote(filePath: string, reviewer: string, quality: string): Vote {
+  const record: VoteRecord = { op: "vote", filePath, reviewer, quality, timestamp: Date.now() }
+  appendRecord(record)
+  applyRecord(getStore(), record)
+  return getStore().get(filePath)!.get(reviewer)!
+}
+
+/**
+ * Carries a sample's votes over to its new path after a relabel
+ */
+export function moveVotes(from: string, to: string) {
+  if (!getStore().has(from)) return
+  const record: VoteRecord = { op: "move", from, to, timestamp: Date.now() }
+  appendRecord(record)
+  applyRecord(getStore(), record)
+}
+
+/**
+ * Current votes on a sample, one per reviewer
+ */
+export function getVotes(filePath: string): Vote[] {
+  return [...(getStore().get(filePath)?.values() ?? [])]
+}
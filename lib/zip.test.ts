@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { MAX_ZIP_ENTRIES, createZipStream, readZip, type ZipEntry } from "@/lib/zip"
+
+async function buildZip(entries: ZipEntry[]): Promise<Buffer> {
+  return Buffer.from(await new Response(createZipStream(entries)).arrayBuffer())
+}
+
+describe("createZipStream", () => {
+  it("writes entries that readZip reads back", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47])
+    const zip = await buildZip([
+      { name: "train/circle/a.png", data: png },
+      { name: "manifest.csv", data: async () => Buffer.from("filename\na.png\n".repeat(50)) },
+    ])
+    const entries = readZip(zip, 1024 * 1024)
+    expect(entries.map((entry) => entry.name)).toEqual(["train/circle/a.png", "manifest.csv"])
+    expect(entries[0].data()).toEqual(png)
+    expect(entries[1].data().toString()).toBe("filename\na.png\n".repeat(50))
+  })
+
+  it("leaves out entries whose loader returns undefined", async () => {
+    const zip = await buildZip([
+      { name: "a.png", data: Buffer.from("a") },
+      { name: "gone.png", data: () => undefined },
+      { name: "b.png", data: async () => Buffer.from("b") },
+    ])
+    const entries = readZip(zip, 1024)
+    expect(entries.map((entry) => entry.name)).toEqual(["a.png", "b.png"])
+    expect(entries[1].data().toString()).toBe("b")
+  })
+
+  it("refuses more entries than the end record can count", () => {
+    const entries = Array.from({ length: MAX_ZIP_ENTRIES + 1 }, (_, i) => ({ name: `${i}.txt`, data: Buffer.alloc(0) }))
+    expect(() => createZipStream(entries)).toThrow(/at most/)
+    expect(() => createZipStream(entries.slice(1))).not.toThrow()
+  })
+})
+
+describe("readZip", () => {
+  it("rejects data that is not a ZIP archive", () => {
+    expect(() => readZip(Buffer.alloc(100), 1024)).toThrow("Not a ZIP archive")
+  })
+
+  it("refuses entries declared larger than the limit", async () => {
+    const zip = await buildZip([{ name: "big.txt", data: Buffer.alloc(4096, "a") }])
+    const [entry] = readZip(zip, 1024)
+    expect(() => entry.data()).toThrow(/big\.txt is larger than/)
+  })
+
+  it("stops inflating an entry that lies about its size", async () => {
+    const zip = await buildZip([{ name: "bomb.txt", data: Buffer.alloc(1024 * 1024, "a") }])
+    // Claim 10 bytes in the central directory, which is all readZip checks before inflating
+    const centralDirectory = zip.readUInt32LE(zip.length - 22 + 16)
+    zip.writeUInt32LE(10, centralDirectory + 24)
+    const [entry] = readZip(zip, 64 * 1024)
+    expect(() => entry.data()).toThrow(/bomb\.txt is larger than/)
+  })
+
+  it("skips directory entries", async () => {
+    const zip = await buildZip([
+      { name: "circles/", data: Buffer.alloc(0) },
+      { name: "circles/a.png", data: Buffer.from("a") },
+    ])
+    expect(readZip(zip, 1024).map((entry) => entry.name)).toEqual(["circles/a.png"])
+  })
+})
@@ -0,0 +1,195 @@
+import zlib from "zlib"
+
+export type ZipEntry = {
+  name: string // path inside the archive, using forward slashes
+  // contents, or a loader called when the entry is streamed; a loader returning undefined leaves the entry out
+  data: Buffer | (() => Buffer | undefined | Promise<Buffer | undefined>)
+  modified?: number // epoch milliseconds, defaults to now
+}
+
+// The end-of-central-directory record counts entries in 16 bits, where 0xffff means
+// "see the ZIP64 record", and ZIP64 is not written
+export const MAX_ZIP_ENTRIES = 0xfffe
+
+/**
+ * An entry read from an archive, whose contents are inflated on demand
+ */
+export type ZipFileEntry = Omit<ZipEntry, "data"> & { data: () => Buffer }
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Converts epoch milliseconds to MS-DOS date and time fields
+ */
+function toDosDateTime(ms: number): { date: number; time: number } {
+  const d = new Date(ms)
+  const year = Math.max(d.getFullYear(), 1980)
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  }
+}
+
+/**
+ * Streams a ZIP archive, compressing one entry at a time so the whole
+ * archive never has to be held in memory
+ * @param entries - Files to include, in archive order
+ * @returns A byte stream suitable for a Response body
+ * @throws Error if there are more than MAX_ZIP_ENTRIES entries
+ */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} entries, got ${entries.length}`)
+  }
+  const centralDirectory: Buffer[] = []
+  let written = 0
+  let offset = 0
+  let index = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (index < entries.length) {
+        const entry = entries[index++]
+        const raw = typeof entry.data === "function" ? await entry.data() : entry.data
+        if (raw === undefined) continue
+        const compressed = zlib.deflateRawSync(raw)
+        // Keep already-compressed data (PNG) stored when deflate doesn't help
+        const useDeflate = compressed.length < raw.length
+        const body = useDeflate ? compressed : raw
+        const method = useDeflate ? 8 : 0
+        const crc = crc32(raw)
+        const name = Buffer.from(entry.name, "utf-8")
+        const { date, time } = toDosDateTime(entry.modified ?? Date.now())
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034b50, 0)
+        local.writeUInt16LE(20, 4) // version needed
+        local.writeUInt16LE(0x0800, 6) // UTF-8 names
+        local.writeUInt16LE(method, 8)
+        local.writeUInt16LE(time, 10)
+        local.writeUInt16LE(date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(body.length, 18)
+        local.writeUInt32LE(raw.length, 22)
+        local.writeUInt16LE(name.length, 26)
+        local.writeUInt16LE(0, 28)
+
+        const central = Buffer.alloc(46)
+        central.writeUInt32LE(0x02014b50, 0)
+        central.writeUInt16LE(20, 4) // version made by
+        central.writeUInt16LE(20, 6) // version needed
+        central.writeUInt16LE(0x0800, 8)
+        central.writeUInt16LE(method, 10)
+        central.writeUInt16LE(time, 12)
+        central.writeUInt16LE(date, 14)
+        central.writeUInt32LE(crc, 16)
+        central.writeUInt32LE(body.length, 20)
+        central.writeUInt32LE(raw.length, 24)
+        central.writeUInt16LE(name.length, 28)
+        central.writeUInt32LE(offset, 42)
+        centralDirectory.push(central, name)
+        written++
+
+        const chunk = Buffer.concat([local, name, body])
+        offset += chunk.length
+        controller.enqueue(new Uint8Array(chunk))
+        return
+      }
+
+      const directory = Buffer.concat(centralDirectory)
+      const end = Buffer.alloc(22)
+      end.writeUInt32LE(0x06054b50, 0)
+      end.writeUInt16LE(written, 8)
+      end.writeUInt16LE(written, 10)
+      end.writeUInt32LE(directory.length, 12)
+      end.writeUInt32LE(offset, 16)
+      controller.enqueue(new Uint8Array(Buffer.concat([directory, end])))
+      controller.close()
+    },
+  })
+}
+
+/**
+ * Lists the files in a ZIP archive. Entries are inflated only when their
+ * loader is called; directories are left out.
+ * Supports stored and deflated entries, but not ZIP64 or encryption.
+ * @param maxEntryBytes - Largest an entry may be once inflated; a loader throws
+ * for a bigger one, whether the archive says so or only inflating reveals it
+ * @throws Error if the buffer is not a readable ZIP archive
+ */
+export function readZip(buffer: Buffer, maxEntryBytes: number): ZipFileEntry[] {
+  // The end-of-central-directory record is the last 22 bytes, plus a comment of up to 64 KB
+  let end = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive")
+
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  if (count === 0xffff || offset === 0xffffffff) throw new Error("ZIP64 archives are not supported")
+
+  const entries: ZipFileEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP central directory")
+    }
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const uncompressedSize = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString(flags & 0x0800 ? "utf-8" : "latin1", offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith("/")) continue
+    entries.push({
+      name,
+      data: () => {
+        if (flags & 0x0001) throw new Error(`${name} is encrypted`)
+        const tooLarge = () => new Error(`${name} is larger than ${Math.round(maxEntryBytes / (1024 * 1024))} MB`)
+        if (uncompressedSize > maxEntryBytes || (method === 0 && compressedSize > maxEntryBytes)) throw tooLarge()
+        if (buffer.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt ZIP entry: ${name}`)
+        // The local header's name and extra field lengths can differ from the central directory's
+        const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+        const body = buffer.subarray(start, start + compressedSize)
+        if (method === 0) return body
+        if (method === 8) {
+          try {
+            return zlib.inflateRawSync(body, { maxOutputLength: maxEntryBytes })
+          } catch (error) {
+            // The declared size was a lie (a zip bomb) if inflating runs past the limit
+            if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge()
+            throw error
+          }
+        }
+        throw new Error(`${name} uses unsupported compression method ${method}`)
+      },
+    })
+  }
+  return entries
+}
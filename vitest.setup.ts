@@ -0,0 +1,17 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll } from "vitest"
+
+// The stores and configs resolve their paths from the working directory when
+// first imported; run each test file in a scratch directory with a copy of
+// config/, so tests never touch data/, public/shapes or the real configs
+const root = process.cwd()
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "shapes-test-"))
+fs.cpSync(path.join(root, "config"), path.join(scratch, "config"), { recursive: true })
+process.chdir(scratch)
+
+afterAll(() => {
+  process.chdir(root)
+  fs.rmSync(scratch, { recursive: true, force: true })
+})